@@ -2,7 +2,7 @@
 
 // Import necessary modules
 import { log } from '../core/utils/display.js';
-import { build, clean, version, publish } from '../core/index.js';
+import { build, clean, version, publish, syncTsconfig, lint } from '../core/index.js';
 
 interface CommandOptions {
   [key: string]: any;
@@ -25,7 +25,9 @@ interface Commands {
 }
 
 // Parse value to appropriate type
-function parseValue(value: string): any {
+function parseValue(value: string | boolean): any {
+  // Flags without a value are already booleans
+  if (typeof value === 'boolean') return value;
   if (value === 'true') return true;
   if (value === 'false') return false;
   if (value === 'null') return null;
@@ -39,6 +41,13 @@ function parseValue(value: string): any {
   return value;
 }
 
+// Parse --filter like other list options, for commands that take their options as given
+function parseFilter(options: CommandOptions): void {
+  if ('filter' in options) {
+    options.filter = parseValue(options.filter);
+  }
+}
+
 // Command definitions with their handlers and descriptions
 const commands: Commands = {
   build: {
@@ -47,7 +56,12 @@ const commands: Commands = {
       // Convert values to appropriate types
       const parsedOptions = Object.entries(options).reduce<Record<string, any>>(
         (acc: Record<string, any>, [key, value]) => {
-          const parts = key.split('.');
+          let parts = key.split('.');
+          // Everything after define. is one expression, such as process.env.NODE_ENV
+          const defineIndex = parts[0] === 'build' ? 1 : 0;
+          if (parts[defineIndex] === 'define' && parts.length > defineIndex + 2) {
+            parts = [...parts.slice(0, defineIndex + 1), parts.slice(defineIndex + 1).join('.')];
+          }
           let current: Record<string, any> = acc;
           for (let i = 0; i < parts.length - 1; i++) {
             current[parts[i]] = current[parts[i]] || {};
@@ -58,6 +72,23 @@ const commands: Commands = {
         },
         {},
       );
+      // Shorthands for build settings
+      for (const key of ['formats', 'target', 'platform', 'sizeReport', 'define']) {
+        if (key in parsedOptions) {
+          parsedOptions.build = { ...parsedOptions.build, [key]: parsedOptions[key] };
+          delete parsedOptions[key];
+        }
+      }
+      // --continue is the default, spelled out for symmetry with --bail
+      if ('continue' in parsedOptions) {
+        parsedOptions.bail = !parsedOptions.continue;
+        delete parsedOptions.continue;
+      }
+      for (const key of ['formats', 'env', 'bundleDependencies']) {
+        if (parsedOptions.build?.[key] && !Array.isArray(parsedOptions.build[key])) {
+          parsedOptions.build[key] = [parsedOptions.build[key]];
+        }
+      }
       await build(parsedOptions);
     },
     description: 'Build packages',
@@ -65,7 +96,29 @@ const commands: Commands = {
       ['--verbose', 'Enable verbose logging'],
       ['--production', 'Build for production'],
       ['--process', 'Show build process with progress'],
+      ['--watch', 'Rebuild changed packages and their dependents'],
+      ['--concurrency=<n>', 'Maximum packages built at once (default: CPU count)'],
+      ['--bail', 'Stop building after the first failure'],
+      ['--continue', 'Keep building packages that do not depend on a failure (default)'],
       ['--package=<n>', 'Build specific package'],
+      [
+        '--filter=<selector>',
+        'Select packages by name glob, ./dir, name... with dependencies, ...name with dependents, !name',
+      ],
+      ['--since=<ref>', 'Only packages changed since a git ref, and their dependents'],
+      ['--formats=[...]', 'Output formats: cjs, esm, iife, umd'],
+      ['--target=<target>', 'Build target, e.g. ES2020'],
+      ['--platform=<platform>', 'Target platform: node, browser, neutral, or a list for one build each'],
+      ['--sizeReport', 'Print raw, gzip and brotli sizes of every entry'],
+      ['--json', 'Print a JSON build report to stdout, with logs on stderr'],
+      ['--report=<file>', 'Write a JSON build report to a file'],
+      ['--analyze', 'Write a treemap of the modules in each package to the cache dir'],
+      ['--define.<name>=<expr>', 'Replace an expression at build time'],
+      ['--build.env=[...]', 'Environment variables to inline as process.env.X'],
+      ['--build.typescript.backend=tsc', 'Type check with tsc --build and compile with esbuild'],
+      ['--build.bundleDependencies=[...]', 'Dependencies to inline instead of leaving external'],
+      ['--build.strictDependencies.level=<l>', 'Report undeclared imports: off, warn, error'],
+      ['--build.licenseHeader', 'Start every emitted file with a license comment from package.json'],
     ],
     examples: [
       ['monoup', 'Build all packages'],
@@ -73,9 +126,22 @@ const commands: Commands = {
       ['monoup build --production', 'Build for production'],
       ['monoup build --verbose', 'Build with verbose logging'],
       ['monoup build --package=my-pkg', 'Build specific package'],
+      ["monoup build --filter='@app/ui-*'", 'Build packages matching a glob'],
+      ['monoup build --filter=core...', 'Build core and the packages it depends on'],
+      ["monoup build --filter=[...core,'!legacy']", 'Build core and its dependents, except legacy'],
+      ['monoup build --since=origin/main', 'Build what a branch changed, with dependents'],
       ['monoup build --process', 'Show build progress'],
+      ['monoup build --watch', 'Watch sources and rebuild on change'],
+      ['monoup build --concurrency=2', 'Build at most two packages at once'],
+      ['monoup build --bail', 'Stop at the first failed package'],
       ['monoup build --formats=[cjs,esm]', 'Specify output formats'],
+      ['monoup build --formats=[esm,iife,umd]', 'Also emit browser script bundles'],
       ['monoup build --target=ES2020', 'Set build target'],
+      ['monoup build --platform=[node,browser]', 'Emit node and browser builds with export conditions'],
+      ['monoup build --sizeReport', 'Show bundle sizes and the change since the last build'],
+      ['monoup build --json > report.json', 'Save the build report for other tools'],
+      ['monoup build --analyze --package=core', 'See which modules make up a package'],
+      ['monoup build --define.__VERSION__=\'"1.2.0"\'', 'Inline a version string'],
       ['monoup build --sourcemap=false', 'Disable source maps'],
     ],
   },
@@ -102,6 +168,8 @@ const commands: Commands = {
     options: [
       ['--verbose', 'Enable verbose logging'],
       ['--package=<n>', 'Clean specific package'],
+      ['--filter=<selector>', 'Clean packages matching pnpm-style selectors'],
+      ['--since=<ref>', 'Only packages changed since a git ref, and their dependents'],
     ],
     examples: [
       ['monoup clean', 'Clean all output directories'],
@@ -112,6 +180,7 @@ const commands: Commands = {
   version: {
     handler: async (args) => {
       const { options, positional } = parseArgs(args);
+      parseFilter(options);
       const type = positional[0] || 'patch';
       await version(type, options);
     },
@@ -119,6 +188,8 @@ const commands: Commands = {
     options: [
       ['--tag', "Pre-release tag name (with 'pre' command, default: 'alpha')"],
       ['--package=<n>', 'Update version for specific package'],
+      ['--filter=<selector>', 'Update packages matching pnpm-style selectors, and their dependents'],
+      ['--since=<ref>', 'Only packages changed since a git ref, and their dependents'],
     ],
     examples: [
       ['monoup version', 'Bump patch version'],
@@ -134,15 +205,53 @@ const commands: Commands = {
   publish: {
     handler: async (args: string[]) => {
       const { options } = parseArgs(args);
+      parseFilter(options);
       await publish(options);
     },
     description: 'Publish packages to npm registry',
-    options: [['--package=<n>', 'Publish specific package, otherwise publish all packages with same version as root']],
+    options: [
+      ['--package=<n>', 'Publish specific package, otherwise publish all packages with same version as root'],
+      ['--filter=<selector>', 'Publish packages matching pnpm-style selectors'],
+      ['--since=<ref>', 'Only packages changed since a git ref, and their dependents'],
+    ],
     examples: [
       ['monoup publish', 'Publish all packages with same version as root package'],
       ['monoup publish --package=my-pkg', 'Publish specific package'],
     ],
   },
+  'sync-tsconfig': {
+    handler: async (args: string[]) => {
+      const { options } = parseArgs(args);
+      await syncTsconfig(options);
+    },
+    description: 'Sync tsconfig project references and paths with workspace dependencies',
+    options: [
+      ['--check', 'Report out-of-sync tsconfig files and exit with an error instead of writing them'],
+      ['--verbose', 'Enable verbose logging'],
+    ],
+    examples: [
+      ['monoup sync-tsconfig', 'Write references, paths and the root solution'],
+      ['monoup sync-tsconfig --check', 'Fail in CI when references are stale'],
+    ],
+  },
+  lint: {
+    handler: async (args: string[]) => {
+      const { options } = parseArgs(args);
+      parseFilter(options);
+      await lint(options);
+    },
+    description: 'Check package.json fields and build outputs before publishing',
+    options: [
+      ['--package=<n>', 'Lint specific package'],
+      ['--filter=<selector>', 'Lint packages matching pnpm-style selectors'],
+      ['--since=<ref>', 'Only packages changed since a git ref, and their dependents'],
+      ['--verbose', 'Also list packages without problems'],
+    ],
+    examples: [
+      ['monoup build && monoup lint', 'Check that every package is ready to publish'],
+      ['monoup lint --package=my-pkg', 'Lint specific package'],
+    ],
+  },
 };
 
 // Function to parse command-line arguments
@@ -155,8 +264,9 @@ function parseArgs(args: string[]): ParsedArgs {
     if (arg.startsWith('--')) {
       const key = arg.slice(2);
       if (key.includes('=')) {
-        const [k, v] = key.split('=');
-        options[k] = v;
+        // Values may contain `=` themselves, e.g. --define.X=a==b
+        const index = key.indexOf('=');
+        options[key.slice(0, index)] = key.slice(index + 1);
       } else {
         const nextArg = args[i + 1];
         if (nextArg && !nextArg.startsWith('--')) {
@@ -182,7 +292,7 @@ function generateHelp(): string {
     [
       'Commands:',
       Object.entries(commands)
-        .map(([name, cmd]) => `  ${name.padEnd(8)} ${cmd.description}`)
+        .map(([name, cmd]) => `  ${name.padEnd(14)} ${cmd.description}`)
         .join('\n'),
     ],
     ["\nUse 'monoup <command> --help' for more information about a command."],
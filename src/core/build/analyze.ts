@@ -0,0 +1,345 @@
+import fs from 'fs';
+import path from 'path';
+import { Plugin } from 'rollup';
+import { Config } from '../utils/config.js';
+import { getPackageInfo } from '../utils/package.js';
+import { toCacheFileName } from './cache.js';
+import { EntryOutput } from './rollup.js';
+
+export interface ModuleImports {
+  external: boolean;
+  imports: string[];
+  dynamicImports: string[];
+}
+
+export interface ModuleAnalysis {
+  // Module path relative to the root directory
+  id: string;
+  // Size of the module in the output, after tree shaking
+  renderedLength: number;
+  // Size of the module source after transforms
+  originalLength: number;
+  external: boolean;
+  imports: string[];
+  dynamicImports: string[];
+  importedBy: string[];
+}
+
+export interface EntryAnalysis {
+  subpath: string;
+  name: string;
+  format: string;
+  platform: string;
+  renderedLength: number;
+  modules: ModuleAnalysis[];
+}
+
+export interface PackageAnalysis {
+  name: string;
+  createdAt: string;
+  entries: EntryAnalysis[];
+}
+
+/**
+ * Creates a plugin that records the imports of every module in the bundle
+ * @param graph - Map filled with module id to its imports once the build ends
+ */
+export function moduleGraphPlugin(graph: Map<string, ModuleImports>): Plugin {
+  return {
+    name: 'monoup:module-graph',
+    buildEnd() {
+      for (const id of this.getModuleIds()) {
+        const info = this.getModuleInfo(id);
+        if (!info) continue;
+        graph.set(id, {
+          external: info.isExternal,
+          imports: [...info.importedIds],
+          dynamicImports: [...info.dynamicallyImportedIds],
+        });
+      }
+    },
+  };
+}
+
+/**
+ * Turns a module id into a readable path relative to the root directory
+ * @param id - Module id
+ * @param config - Build configuration
+ */
+function toModuleName(id: string, config: Config): string {
+  // Virtual modules are prefixed with a null byte
+  const name = id.replace(/^\0/, '');
+  return path.isAbsolute(name) ? path.relative(config.rootDir, name).split(path.sep).join('/') : name;
+}
+
+/**
+ * Collects the modules of each entry with their rendered sizes and imports
+ * @param pkgPath - Package directory path
+ * @param outputs - Outputs of the package build, built with `analyze` enabled
+ * @param config - Package build configuration
+ */
+export function analyzeOutputs(pkgPath: string, outputs: EntryOutput[], config: Config): PackageAnalysis {
+  const entries = outputs.map((output): EntryAnalysis => {
+    const graph = output.moduleGraph || new Map<string, ModuleImports>();
+    const modules = new Map<string, ModuleAnalysis>();
+    const name = (id: string) => toModuleName(id, config);
+
+    // Every chunk of a bundle belongs to the entry it was built for
+    for (const chunk of output.chunks) {
+      for (const [id, rendered] of Object.entries(chunk.modules)) {
+        const imports = graph.get(id);
+        modules.set(id, {
+          id: name(id),
+          renderedLength: rendered.renderedLength,
+          originalLength: rendered.originalLength,
+          external: false,
+          imports: (imports?.imports || []).map(name),
+          dynamicImports: (imports?.dynamicImports || []).map(name),
+          importedBy: [],
+        });
+      }
+    }
+    graph.forEach((imports, id) => {
+      if (imports.external && !modules.has(id)) {
+        modules.set(id, {
+          id: name(id),
+          renderedLength: 0,
+          originalLength: 0,
+          external: true,
+          imports: [],
+          dynamicImports: [],
+          importedBy: [],
+        });
+      }
+    });
+
+    const byName = new Map([...modules.values()].map((module) => [module.id, module]));
+    modules.forEach((module) => {
+      [...module.imports, ...module.dynamicImports].forEach((imported) =>
+        byName.get(imported)?.importedBy.push(module.id),
+      );
+    });
+
+    const list = [...modules.values()].sort((a, b) => b.renderedLength - a.renderedLength);
+    return {
+      subpath: output.entry.subpath,
+      name: output.entry.name,
+      format: output.format,
+      platform: output.platform,
+      renderedLength: list.reduce((total, module) => total + module.renderedLength, 0),
+      modules: list,
+    };
+  });
+
+  return { name: getPackageInfo(pkgPath).name, createdAt: new Date().toISOString(), entries };
+}
+
+/**
+ * Renders a self-contained HTML treemap of a package analysis
+ * @param analysis - Package analysis
+ */
+function renderTreemap(analysis: PackageAnalysis): string {
+  // Keep the data from closing the script tag
+  const data = JSON.stringify(analysis).replace(/</g, '\\u003c');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${analysis.name.replace(/</g, '&lt;')} bundle analysis</title>
+<style>
+  body { margin: 0; font: 12px/1.4 system-ui, sans-serif; color: #222; display: flex; flex-direction: column; height: 100vh; }
+  header { display: flex; gap: 12px; align-items: center; padding: 8px 12px; border-bottom: 1px solid #ddd; }
+  header h1 { font-size: 14px; margin: 0; }
+  #crumbs span { cursor: pointer; color: #0366d6; }
+  #map { position: relative; flex: 1; margin: 8px; }
+  .node { position: absolute; box-sizing: border-box; border: 1px solid #fff; overflow: hidden; }
+  .dir { background: rgba(0, 0, 0, 0.06); cursor: zoom-in; }
+  .dir > .label { font-weight: 600; }
+  .label { padding: 1px 4px; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+</style>
+</head>
+<body>
+<header>
+  <h1></h1>
+  <select id="entry"></select>
+  <span id="crumbs"></span>
+</header>
+<div id="map"></div>
+<script>
+const analysis = ${data};
+const HEADER = 16;
+const map = document.getElementById('map');
+const select = document.getElementById('entry');
+const crumbs = document.getElementById('crumbs');
+let root;
+let path = [];
+
+document.querySelector('h1').textContent = analysis.name;
+analysis.entries.forEach((entry, index) => {
+  const option = document.createElement('option');
+  option.value = index;
+  option.textContent = entry.subpath + ' (' + entry.format + ', ' + entry.platform + ', ' + formatSize(entry.renderedLength) + ')';
+  select.appendChild(option);
+});
+select.onchange = () => load(analysis.entries[select.value]);
+window.onresize = () => render();
+
+function formatSize(bytes) {
+  return bytes < 1000 ? bytes + ' B' : (bytes / 1000).toFixed(2) + ' kB';
+}
+
+// Group modules into a tree by path segment
+function buildTree(entry) {
+  const tree = { name: entry.subpath, children: new Map(), value: 0 };
+  entry.modules.filter((module) => module.renderedLength > 0).forEach((module) => {
+    let node = tree;
+    module.id.split('/').forEach((part) => {
+      node.value += module.renderedLength;
+      if (!node.children.has(part)) node.children.set(part, { name: part, children: new Map(), value: 0 });
+      node = node.children.get(part);
+    });
+    node.value += module.renderedLength;
+    node.module = module;
+  });
+  return tree;
+}
+
+function worst(row, side) {
+  const sum = row.reduce((total, item) => total + item.area, 0);
+  const max = Math.max(...row.map((item) => item.area));
+  const min = Math.min(...row.map((item) => item.area));
+  return Math.max((side * side * max) / (sum * sum), (sum * sum) / (side * side * min));
+}
+
+// Squarified treemap layout
+function squarify(nodes, x, y, w, h) {
+  const total = nodes.reduce((sum, node) => sum + node.value, 0);
+  let rest = nodes.map((node) => ({ node, area: (node.value / total) * w * h }));
+  const rects = [];
+  while (rest.length > 0) {
+    const side = Math.min(w, h);
+    let count = 1;
+    while (count < rest.length && worst(rest.slice(0, count + 1), side) <= worst(rest.slice(0, count), side)) count++;
+    const row = rest.slice(0, count);
+    rest = rest.slice(count);
+    const area = row.reduce((sum, item) => sum + item.area, 0);
+    if (w >= h) {
+      const width = area / h;
+      let top = y;
+      for (const item of row) {
+        rects.push({ node: item.node, x, y: top, w: width, h: item.area / width });
+        top += item.area / width;
+      }
+      x += width;
+      w -= width;
+    } else {
+      const height = area / w;
+      let left = x;
+      for (const item of row) {
+        rects.push({ node: item.node, x: left, y, w: item.area / height, h: height });
+        left += item.area / height;
+      }
+      y += height;
+      h -= height;
+    }
+  }
+  return rects;
+}
+
+function color(name) {
+  let hash = 0;
+  for (const char of name) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return 'hsl(' + (Math.abs(hash) % 360) + ', 55%, 75%)';
+}
+
+function tooltip(node) {
+  const module = node.module;
+  if (!module) return node.name + ': ' + formatSize(node.value);
+  return [
+    module.id,
+    'Rendered: ' + formatSize(module.renderedLength),
+    'Original: ' + formatSize(module.originalLength),
+    module.imports.length ? 'Imports: ' + module.imports.join(', ') : '',
+    module.importedBy.length ? 'Imported by: ' + module.importedBy.join(', ') : '',
+  ].filter(Boolean).join('\\n');
+}
+
+function draw(node, parent, x, y, w, h, group) {
+  const el = document.createElement('div');
+  el.className = 'node' + (node.module ? '' : ' dir');
+  Object.assign(el.style, { left: x + 'px', top: y + 'px', width: w + 'px', height: h + 'px' });
+  el.title = tooltip(node);
+  if (node.module) el.style.background = color(group);
+  const label = document.createElement('div');
+  label.className = 'label';
+  label.textContent = node.name + ' ' + formatSize(node.value);
+  el.appendChild(label);
+  parent.appendChild(el);
+
+  if (!node.module) {
+    el.onclick = (event) => {
+      event.stopPropagation();
+      path.push(node);
+      render();
+    };
+    const children = [...node.children.values()].sort((a, b) => b.value - a.value);
+    if (w > 4 && h > HEADER + 4 && children.length > 0) {
+      squarify(children, 0, HEADER, w - 2, h - HEADER - 2).forEach((rect) =>
+        draw(rect.node, el, rect.x, rect.y, rect.w, rect.h, group || rect.node.name),
+      );
+    }
+  }
+}
+
+function render() {
+  const node = path.length ? path[path.length - 1] : root;
+  map.innerHTML = '';
+  crumbs.innerHTML = '';
+  [root, ...path].forEach((crumb, index) => {
+    const span = document.createElement('span');
+    span.textContent = (index ? ' / ' : '') + crumb.name;
+    span.onclick = () => {
+      path = path.slice(0, index);
+      render();
+    };
+    crumbs.appendChild(span);
+  });
+  const children = [...node.children.values()].sort((a, b) => b.value - a.value);
+  if (children.length === 0) return;
+  squarify(children, 0, 0, map.clientWidth, map.clientHeight).forEach((rect) =>
+    draw(rect.node, map, rect.x, rect.y, rect.w, rect.h, rect.node.name),
+  );
+}
+
+function load(entry) {
+  root = buildTree(entry);
+  path = [];
+  render();
+}
+
+if (analysis.entries.length > 0) load(analysis.entries[0]);
+</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Writes the analysis of a package as JSON and as an HTML treemap to the cache dir
+ * @param pkgPath - Package directory path
+ * @param analysis - Package analysis
+ * @param config - Package build configuration
+ * @returns Path of the HTML file
+ */
+export function writeAnalysis(pkgPath: string, analysis: PackageAnalysis, config: Config): string {
+  const baseName = path.resolve(
+    config.build.cacheDir,
+    'monoup',
+    'analyze',
+    toCacheFileName(getPackageInfo(pkgPath).name),
+  );
+  fs.mkdirSync(path.dirname(baseName), { recursive: true });
+  fs.writeFileSync(`${baseName}.json`, JSON.stringify(analysis, null, 2));
+  fs.writeFileSync(`${baseName}.html`, renderTreemap(analysis));
+  return `${baseName}.html`;
+}
@@ -0,0 +1,267 @@
+import { createHash } from 'crypto';
+import { transform } from 'esbuild';
+import fs from 'fs';
+import MagicString from 'magic-string';
+import path from 'path';
+import { Plugin, PluginContext } from 'rollup';
+import { Config } from '../utils/config.js';
+
+// Marks imports of copied assets until their path relative to each output file is known
+const ASSET_PREFIX = 'monoup-asset:';
+
+const MIME_TYPES: Record<string, string> = {
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.eot': 'application/vnd.ms-fontobject',
+};
+
+/**
+ * Computes a short content hash
+ * @param content - Content to hash
+ */
+function shortHash(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, 8);
+}
+
+/**
+ * Gets the output file name of an asset, stable as long as its content is unchanged
+ * @param file - Asset source path
+ * @param content - Asset content
+ */
+function getAssetFileName(file: string, content: Buffer): string {
+  const extension = path.extname(file);
+  return `assets/${path.basename(file, extension)}-${shortHash(content)}${extension}`;
+}
+
+/**
+ * Encodes an asset as a data URL
+ * @param file - Asset source path
+ * @param content - Asset content
+ */
+function toDataUrl(file: string, content: Buffer): string {
+  const mimeType = MIME_TYPES[path.extname(file).toLowerCase()] || 'application/octet-stream';
+  return `data:${mimeType};base64,${content.toString('base64')}`;
+}
+
+/**
+ * Scopes the class names of a CSS module to the file they are declared in
+ * @param css - Style sheet source
+ * @param id - Style sheet path
+ * @param rootDir - Root directory, used to derive stable names
+ * @returns Scoped style sheet and the map of original to scoped class names
+ */
+function scopeClassNames(css: string, id: string, rootDir: string): { css: string; classes: Record<string, string> } {
+  const suffix = shortHash(path.relative(rootDir, id).split(path.sep).join('/')).slice(0, 6);
+  const classes: Record<string, string> = {};
+
+  // Comments, strings, url() and :global() are skipped; everything else matching .name is a class selector
+  const pattern =
+    /(\/\*[\s\S]*?\*\/|"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|url\([^)]*\))|:global\(([^)]*)\)|\.(-?[_a-zA-Z][\w-]*)/g;
+  const scoped = css.replace(pattern, (match, skipped?: string, global?: string, className?: string) => {
+    if (skipped !== undefined) return match;
+    if (global !== undefined) return global;
+    classes[className!] = `${className}_${suffix}`;
+    return `.${classes[className!]}`;
+  });
+  return { css: scoped, classes };
+}
+
+// Module meta under which style sheets keep their processed source, so that cached modules keep it too
+interface StyleMeta {
+  css: string;
+  // Plain style sheets leave an empty module behind, CSS modules export their class names
+  plain: boolean;
+}
+
+/**
+ * Gets the processed source of a style sheet module
+ * @param context - Plugin context
+ * @param id - Module id
+ */
+function getStyle(context: PluginContext, id: string): StyleMeta | undefined {
+  return context.getModuleInfo(id)?.meta['monoup:assets'];
+}
+
+/**
+ * Creates a plugin that copies or inlines imported assets and extracts imported CSS into one file per entry
+ * @param srcDir - Source directory
+ * @param config - Build configuration
+ */
+export function assetsPlugin(srcDir: string, config: Config): Plugin {
+  const { extensions, inlineLimit, cssModules } = config.build.assets;
+  // Output file name to source path of assets copied to outDir, for the output being written
+  const copied = new Map<string, string>();
+  // Asset file names emitted to the output being written
+  const emitted = new Set<string>();
+
+  const isAsset = (file: string) => extensions.includes(path.extname(file).toLowerCase());
+
+  // The same asset can be referenced from CSS and JavaScript, but may only be emitted once per output
+  const emitAsset = (context: PluginContext, fileName: string, source: Buffer | string) => {
+    if (emitted.has(fileName)) return;
+    emitted.add(fileName);
+    context.emitFile({ type: 'asset', fileName, source });
+  };
+
+  // Point relative url() references at copied or inlined assets
+  const rewriteUrls = (context: PluginContext, css: string, id: string, cssFileName: string) =>
+    css.replace(/url\(\s*(['"]?)([^'")]+)\1\s*\)/g, (match, _quote: string, url: string) => {
+      if (/^(?:[a-z]+:|\/|#)/i.test(url)) return match;
+      const file = path.resolve(path.dirname(id), url.split(/[?#]/)[0]);
+      if (!fs.existsSync(file)) return match;
+
+      const content = fs.readFileSync(file);
+      if (content.length <= inlineLimit) return `url("${toDataUrl(file, content)}")`;
+      const fileName = getAssetFileName(file, content);
+      emitAsset(context, fileName, content);
+      return `url("${path.posix.relative(path.posix.dirname(cssFileName), fileName)}")`;
+    });
+
+  // Style sheets are named after their entry, relative to srcDir
+  const getStyleSheetName = (entryId: string) =>
+    `${path
+      .relative(srcDir, entryId)
+      .replace(/\.[^./\\]+$/, '')
+      .split(path.sep)
+      .join('/')}.css`;
+
+  // Collect the style sheets a module imports, in import order
+  const collectStyles = (context: PluginContext, id: string, seen = new Set<string>()): string[] => {
+    if (seen.has(id)) return [];
+    seen.add(id);
+    if (getStyle(context, id)) return [id];
+    const info = context.getModuleInfo(id);
+    return (info?.importedIds || []).flatMap((imported) => collectStyles(context, imported, seen));
+  };
+
+  return {
+    name: 'monoup:assets',
+
+    async resolveId(source, importer) {
+      const extension = path.extname(source).toLowerCase();
+      if (!importer || (extension !== '.css' && !isAsset(source))) return null;
+      // Other plugins resolve the absolute path again while handling the original import
+      if (path.isAbsolute(source)) return null;
+
+      const resolved = await this.resolve(source, importer, { skipSelf: true });
+      if (!resolved || resolved.external || extension === '.css') return resolved;
+
+      // Larger assets stay imports of a copy in outDir
+      if (fs.statSync(resolved.id).size <= inlineLimit) return resolved.id;
+      return { id: `${ASSET_PREFIX}${resolved.id}`, external: true };
+    },
+
+    load(id) {
+      if (id.endsWith('.css')) {
+        const css = fs.readFileSync(id, 'utf-8');
+        if (cssModules && id.endsWith('.module.css')) {
+          const scoped = scopeClassNames(css, id, config.rootDir);
+          const meta: StyleMeta = { css: scoped.css, plain: false };
+          return { code: `export default ${JSON.stringify(scoped.classes)};`, meta: { 'monoup:assets': meta } };
+        }
+        // Plain style sheets only live on in the extracted CSS; their empty modules are dropped from the output
+        const meta: StyleMeta = { css, plain: true };
+        return { code: '', moduleSideEffects: false, meta: { 'monoup:assets': meta } };
+      }
+      if (isAsset(id)) {
+        return `export default ${JSON.stringify(toDataUrl(id, fs.readFileSync(id)))};`;
+      }
+      return null;
+    },
+
+    renderStart() {
+      copied.clear();
+      emitted.clear();
+    },
+
+    renderChunk(code, chunk, options, { chunks }) {
+      // Script bundles take imports from globals, so nothing would load the copy of an asset
+      const copiedAsset = chunk.imports.find((id) => id.startsWith(ASSET_PREFIX));
+      if (copiedAsset && (options.format === 'iife' || options.format === 'umd')) {
+        this.error(
+          `Cannot import ${path.relative(config.rootDir, copiedAsset.slice(ASSET_PREFIX.length))} in the ` +
+            `${options.format} bundle: assets larger than build.assets.inlineLimit (${inlineLimit} bytes) are copied`,
+        );
+      }
+
+      // Empty modules of plain style sheets, written as their own files with preserveModules
+      const emptyStyles = chunk.imports.filter((fileName) => {
+        const facade = chunks[fileName]?.facadeModuleId;
+        return facade ? getStyle(this, facade)?.plain : false;
+      });
+      // ES modules import the extracted style sheet instead, so that bundlers pick it up. CommonJS is left
+      // alone, as Node cannot require CSS.
+      const importsCss =
+        options.format === 'es' &&
+        chunk.isEntry &&
+        !!chunk.facadeModuleId &&
+        collectStyles(this, chunk.facadeModuleId).length > 0;
+      if (!code.includes(ASSET_PREFIX) && !importsCss && emptyStyles.length === 0) return null;
+
+      const magicString = new MagicString(code);
+      const toImportPath = (fileName: string) => {
+        const relative = path.posix.relative(path.posix.dirname(chunk.fileName), fileName);
+        return relative.startsWith('.') ? relative : `./${relative}`;
+      };
+
+      for (const fileName of emptyStyles) {
+        const importPath = toImportPath(fileName).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const statement = new RegExp(`^(?:import ['"]${importPath}['"]|require\\(['"]${importPath}['"]\\));?\\n`, 'gm');
+        for (const match of code.matchAll(statement)) {
+          magicString.remove(match.index!, match.index! + match[0].length);
+        }
+      }
+
+      if (importsCss) {
+        magicString.prepend(`import '${toImportPath(getStyleSheetName(chunk.facadeModuleId!))}';\n`);
+      }
+
+      // Point asset imports at their copy, relative to the output file
+      const pattern = new RegExp(`${ASSET_PREFIX}([^'"\\n]+)`, 'g');
+      for (const match of code.matchAll(pattern)) {
+        const file = match[1];
+        const fileName = getAssetFileName(file, fs.readFileSync(file));
+        copied.set(fileName, file);
+        magicString.overwrite(match.index!, match.index! + match[0].length, toImportPath(fileName));
+      }
+      return { code: magicString.toString(), map: options.sourcemap ? magicString.generateMap({ hires: true }) : null };
+    },
+
+    async generateBundle(_, bundle) {
+      copied.forEach((file, fileName) => emitAsset(this, fileName, fs.readFileSync(file)));
+
+      for (const chunk of Object.values(bundle)) {
+        if (chunk.type !== 'chunk' || !chunk.facadeModuleId) continue;
+
+        // Nothing imports the empty modules of plain style sheets any more
+        if (getStyle(this, chunk.facadeModuleId)?.plain && !chunk.isEntry) {
+          delete bundle[chunk.fileName];
+          delete bundle[`${chunk.fileName}.map`];
+          continue;
+        }
+
+        if (!chunk.isEntry) continue;
+        const ids = collectStyles(this, chunk.facadeModuleId);
+        if (ids.length === 0) continue;
+
+        // One style sheet per entry, named after it
+        const fileName = getStyleSheetName(chunk.facadeModuleId);
+        let css = ids.map((id) => rewriteUrls(this, getStyle(this, id)!.css, id, fileName)).join('\n');
+        if (config.production) {
+          css = (await transform(css, { loader: 'css', minify: true })).code;
+        }
+        emitAsset(this, fileName, css);
+      }
+    },
+  };
+}
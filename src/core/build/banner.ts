@@ -0,0 +1,92 @@
+import MagicString from 'magic-string';
+import { Plugin } from 'rollup';
+import { Banner, Config } from '../utils/config.js';
+import { getPackageInfo, PackageJson } from '../utils/package.js';
+
+const DECLARATION_FILE = /\.d\.[cm]?ts$/;
+const DECLARATION_MAP_FILE = /\.d\.[cm]?ts\.map$/;
+
+/**
+ * Formats the author field of package.json, which is either a string or a person object
+ * @param author - Author field
+ */
+function formatAuthor(author: PackageJson['author']): string | undefined {
+  if (!author) return undefined;
+  if (typeof author === 'string') return author;
+  return [author.name, author.email && `<${author.email}>`, author.url && `(${author.url})`].filter(Boolean).join(' ');
+}
+
+/**
+ * Builds a license comment from package.json, kept by minifiers as it starts with `/*!`
+ * @param pkg - Package information
+ */
+export function getLicenseHeader(pkg: PackageJson): string {
+  const author = formatAuthor(pkg.author);
+  const lines = [
+    pkg.version ? `${pkg.name} v${pkg.version}` : pkg.name,
+    author && `Copyright (c) ${author}`,
+    pkg.license && `@license ${pkg.license}`,
+  ].filter(Boolean) as string[];
+  // Values must not end the comment early
+  return ['/*!', ...lines.map((line) => ` * ${line.replace(/\*\//g, '*\\/')}`), ' */'].join('\n');
+}
+
+/**
+ * Resolves the text added to the start and end of every emitted file of a package
+ * @param pkgPath - Package directory path
+ * @param config - Package build configuration
+ */
+export function getBanners(pkgPath: string, config: Config): { banner: string; footer: string } {
+  const pkg = getPackageInfo(pkgPath);
+  const resolve = (option?: Banner) => (typeof option === 'function' ? option(pkg) : option || '');
+  const header = config.build.licenseHeader ? getLicenseHeader(pkg) : '';
+  return {
+    banner: [header, resolve(config.build.banner)].filter(Boolean).join('\n'),
+    footer: resolve(config.build.footer),
+  };
+}
+
+/**
+ * Creates a plugin that adds the banner and footer to chunks and to declaration files emitted as assets.
+ * It runs after minification, so that the banner is kept as written.
+ * @param pkgPath - Package directory path
+ * @param config - Package build configuration
+ */
+export function bannerPlugin(pkgPath: string, config: Config): Plugin {
+  const { banner, footer } = getBanners(pkgPath, config);
+
+  return {
+    name: 'monoup:banner',
+
+    renderChunk(code, _, options) {
+      if (!banner && !footer) return null;
+      const magicString = new MagicString(code);
+      // The banner goes below a shebang, which has to stay on the first line
+      const start = code.startsWith('#!') ? code.indexOf('\n') + 1 : 0;
+      if (banner) magicString.appendLeft(start, `${banner}\n`);
+      if (footer) magicString.append(`\n${footer}\n`);
+      return { code: magicString.toString(), map: options.sourcemap ? magicString.generateMap({ hires: true }) : null };
+    },
+
+    generateBundle(_, bundle) {
+      if (!banner && !footer) return;
+      const bannerLines = banner ? banner.split('\n').length : 0;
+
+      for (const file of Object.values(bundle)) {
+        if (file.type !== 'asset') continue;
+        if (DECLARATION_FILE.test(file.fileName)) {
+          // The source map comment stays last
+          const source = file.source.toString();
+          const mapComment = source.match(/\n\/\/# sourceMappingURL=[^\n]*\n?$/)?.[0] || '';
+          const body = source.slice(0, source.length - mapComment.length);
+          file.source = `${banner ? `${banner}\n` : ''}${body}${footer ? `\n${footer}` : ''}${mapComment}`;
+        } else if (DECLARATION_MAP_FILE.test(file.fileName) && bannerLines > 0) {
+          // Declaration maps move down by the lines of the banner
+          const map = JSON.parse(file.source.toString());
+          map.mappings = ';'.repeat(bannerLines) + map.mappings;
+          file.source = JSON.stringify(map);
+        }
+      }
+    },
+  };
+}
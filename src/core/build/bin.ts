@@ -0,0 +1,32 @@
+import fs from 'fs';
+import MagicString from 'magic-string';
+import path from 'path';
+import { Plugin } from 'rollup';
+
+const SHEBANG = '#!/usr/bin/env node';
+
+/**
+ * Creates a plugin that turns entry chunks into executable scripts: it adds a shebang when the source has none
+ * and marks the written files as executable
+ */
+export function binPlugin(): Plugin {
+  return {
+    name: 'monoup:bin',
+
+    renderChunk(code, chunk, options) {
+      // Rollup keeps a shebang from the source at the top of the entry
+      if (!chunk.isEntry || code.startsWith('#!')) return null;
+      const magicString = new MagicString(code).prepend(`${SHEBANG}\n`);
+      return { code: magicString.toString(), map: options.sourcemap ? magicString.generateMap({ hires: true }) : null };
+    },
+
+    writeBundle(options, bundle) {
+      const outDir = options.dir || path.dirname(options.file!);
+      for (const file of Object.values(bundle)) {
+        if (file.type === 'chunk' && file.isEntry) {
+          fs.chmodSync(path.resolve(outDir, file.fileName), 0o755);
+        }
+      }
+    },
+  };
+}
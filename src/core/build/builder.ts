@@ -1,7 +1,31 @@
+import path from 'path';
 import { initDisplay, log, updatePackageDisplayStatus } from '../utils/display.js';
 import { getPackageInfo } from '../utils/package.js';
+import { analyzeOutputs, writeAnalysis } from './analyze.js';
 import { buildPackage } from './rollup.js';
-import { Config } from '../utils/config.js';
+import {
+  computePackageHashes,
+  getCachedPackages,
+  isPackageCached,
+  loadPreviousSizes,
+  saveSizes,
+  writeManifest,
+} from './cache.js';
+import { syncPackageExports } from './exports.js';
+import {
+  BuildMessage,
+  getEmittedFiles,
+  PackageReport,
+  toBuildMessage,
+  toNamedGraph,
+  serializeReportConfig,
+  writeReport,
+} from './report.js';
+import { runScheduled } from './scheduler.js';
+import { checkSizeLimits, formatSizeReport, measureEntrySizes } from './size.js';
+import { checkTypes } from './tsc.js';
+import { Config, getPackageConfig } from '../utils/config.js';
+import { selectPackages } from '../utils/filter.js';
 
 interface Timings {
   init: number;
@@ -9,13 +33,74 @@ interface Timings {
   building: number;
 }
 
+export type BuildStatus = 'built' | 'cached' | 'failed';
+
 const errorMessages: string[] = [];
+const noticeMessages: string[] = [];
+const packageReports = new Map<string, PackageReport>();
+
+/**
+ * Prints and clears the messages held back while the process display is shown, for builds that do not
+ * end in a build summary, such as watch rebuilds
+ */
+export function flushMessages(): void {
+  noticeMessages.forEach((message) => log(message));
+  noticeMessages.length = 0;
+  errorMessages.forEach((message) => log(message, 'error'));
+  errorMessages.length = 0;
+}
 
-// Build a single package
-export async function build(pkgPath: string, config: Config): Promise<boolean> {
+/**
+ * Writes the generated entry point fields to a package's package.json and reports the changes
+ * @param pkgPath - Package directory path
+ * @param pkgConfig - Package build configuration
+ * @param config - Root configuration
+ */
+function syncEntryPoints(pkgPath: string, pkgConfig: Config, config: Config): void {
+  const changes = syncPackageExports(pkgPath, pkgConfig);
+  if (changes.length === 0) return;
+  const pkgName = getPackageInfo(pkgPath).name;
+  const messages = [`[${pkgName}] Updated package.json entry points:`, ...changes.map((line) => `  ${line}`)];
+  if (!config.process) {
+    messages.forEach((message) => log(message));
+  } else {
+    noticeMessages.push(...messages);
+  }
+}
+
+// Build a single package, skipping it when its output matches the cached hash
+export async function build(pkgPath: string, config: Config, hash?: string): Promise<BuildStatus> {
   const pkg = getPackageInfo(pkgPath);
   const pkgName = pkg.name;
   const startTime = Date.now();
+  const pkgConfig = await getPackageConfig(pkgPath, config);
+  const report: PackageReport = {
+    name: pkgName,
+    path: pkgPath,
+    status: 'built',
+    duration: 0,
+    files: [],
+    warnings: [],
+    errors: [],
+  };
+  packageReports.set(pkgPath, report);
+
+  // Analysis needs the module graph of a fresh build
+  const useCache = Boolean(hash) && pkgConfig.build.cache;
+  if (useCache && !config.analyze && isPackageCached(pkgPath, hash!, pkgConfig)) {
+    report.status = 'cached';
+    // The generated fields are left out of the hash, so hand edits to them are undone on cached builds too
+    if (pkgConfig.build.generateExports) {
+      syncEntryPoints(pkgPath, pkgConfig, config);
+    }
+    report.duration = Date.now() - startTime;
+    if (!config.process) {
+      log(`[${pkgName}] Cached`, 'success');
+    } else {
+      updatePackageDisplayStatus(pkgName, 'cached', 'Cached');
+    }
+    return 'cached';
+  }
 
   if (!config.process) {
     log(`[${pkgName}] Building...`);
@@ -23,47 +108,178 @@ export async function build(pkgPath: string, config: Config): Promise<boolean> {
     updatePackageDisplayStatus(pkgName, 'building', 'Building...');
   }
 
+  // Report a failure, with details only in plain output
+  const fail = (message: string, details: string[], errors: BuildMessage[]): BuildStatus => {
+    report.status = 'failed';
+    report.duration = Date.now() - startTime;
+    report.errors.push(...errors);
+    const duration = (report.duration / 1000).toFixed(2);
+    if (!config.process) {
+      log(`[${pkgName}] Build failed (${duration}s)`, 'error');
+      details.forEach((detail) => log(detail, 'error'));
+    } else {
+      updatePackageDisplayStatus(pkgName, 'error', `Failed (${duration}s)`);
+      errorMessages.push(`${pkgName}: ${message} (${duration}s)`);
+    }
+    return 'failed';
+  };
+
   try {
-    const results = await buildPackage(pkgPath, config);
-    const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+    // The tsc backend checks types before any JavaScript is emitted
+    const { enabled, backend } = pkgConfig.build.typescript;
+    const types = enabled && backend === 'tsc' ? await checkTypes(pkgPath, config) : undefined;
+    if (types && types.errors.length > 0) {
+      const message = `${types.errors.length} type error${types.errors.length === 1 ? '' : 's'}`;
+      return fail(message, [`[${pkgName}] Found ${message}:`, types.output.trimEnd()], types.errors);
+    }
+
+    const results = await buildPackage(pkgPath, pkgConfig, (warning) => report.warnings.push(toBuildMessage(warning)));
+    report.files = getEmittedFiles(pkgPath, [...results.files, ...(types?.files || [])], pkgConfig);
+    const { sizeReport, sizeLimit, sizeCompression } = pkgConfig.build;
+    if (sizeReport || sizeLimit !== undefined) {
+      const sizes = measureEntrySizes(results.outputs);
+      const previous = loadPreviousSizes(pkgPath, pkgConfig);
+      saveSizes(pkgPath, sizes, pkgConfig);
+      report.sizes = sizes;
+      if (sizeReport) {
+        const unit = sizeCompression === 'none' ? 'raw' : sizeCompression;
+        const messages = [
+          `[${pkgName}] Bundle sizes${previous ? ` (change in ${unit} size)` : ''}:`,
+          ...formatSizeReport(sizes, previous, pkgConfig).map((line) => `  ${line}`),
+        ];
+        if (!config.process) {
+          messages.forEach((message) => log(message));
+        } else {
+          noticeMessages.push(...messages);
+        }
+      }
+      const overBudget = checkSizeLimits(sizes, pkgConfig);
+      if (overBudget.length > 0) {
+        return fail(
+          `size limit exceeded: ${overBudget.join('; ')}`,
+          [`[${pkgName}] Size limit exceeded:`, ...overBudget.map((message) => `  ${message}`)],
+          overBudget.map((message) => ({ message, code: 'SIZE_LIMIT' })),
+        );
+      }
+    }
+    report.duration = Date.now() - startTime;
+    const duration = (report.duration / 1000).toFixed(2);
     if (!config.process) {
       log(`[${pkgName}] Build successful (${duration}s)`, 'success');
     } else {
-      updatePackageDisplayStatus(pkgName, 'success', `Built ${results.join(', ')} (${duration}s)`);
+      updatePackageDisplayStatus(pkgName, 'success', `Built ${results.files.join(', ')} (${duration}s)`);
     }
-    return true;
-  } catch (error: any) {
-    const duration = ((Date.now() - startTime) / 1000).toFixed(2);
-    if (!config.process) {
-      log(`[${pkgName}] Build failed (${duration}s)`, 'error');
-      log(error.stack || error.message, 'error');
-      if (error.frame && config.verbose) {
-        log(error.frame, 'error');
+    if (config.analyze) {
+      const analysisPath = writeAnalysis(pkgPath, analyzeOutputs(pkgPath, results.outputs, pkgConfig), pkgConfig);
+      report.analysis = analysisPath;
+      const message = `[${pkgName}] Bundle analysis: ${path.relative(process.cwd(), analysisPath)}`;
+      if (!config.process) {
+        log(message);
+      } else {
+        noticeMessages.push(message);
       }
-    } else {
-      errorMessages.push(`${pkgName}: ${error.message} (${duration}s)`);
     }
-    return false;
+    if (pkgConfig.build.generateExports) {
+      syncEntryPoints(pkgPath, pkgConfig, config);
+    }
+    if (useCache) {
+      writeManifest(pkgPath, hash!, pkgConfig);
+    }
+    return 'built';
+  } catch (error: any) {
+    const details = [error.stack || error.message];
+    if (error.frame && config.verbose) {
+      details.push(error.frame);
+    }
+    return fail(error.message, details, [toBuildMessage(error)]);
+  }
+}
+
+/**
+ * Report a package that is not built because an upstream package failed or the build was aborted
+ * @param pkgPath - Package directory path
+ * @param config - Build configuration
+ * @param cause - Path of the failed upstream package, undefined when the build was aborted
+ * @returns Reason the package was skipped
+ */
+export function markSkipped(pkgPath: string, config: Config, cause?: string): string {
+  const pkgName = getPackageInfo(pkgPath).name;
+  const reason = cause ? `${getPackageInfo(cause).name} failed` : 'build aborted';
+  packageReports.set(pkgPath, {
+    name: pkgName,
+    path: pkgPath,
+    status: 'skipped',
+    skippedBecause: cause && getPackageInfo(cause).name,
+    duration: 0,
+    files: [],
+    warnings: [],
+    errors: [],
+  });
+  if (!config.process) {
+    log(`[${pkgName}] Skipped, ${reason}`, 'warn');
+  } else {
+    updatePackageDisplayStatus(pkgName, 'skipped', `Skipped, ${reason}`);
   }
+  return reason;
 }
 
-// Build all packages
-export async function buildAll(packages: string[], config: Config): Promise<boolean> {
+/**
+ * Build the workspace dependency graph for a list of packages
+ * @param packages - Package directory paths
+ * @param config - Build configuration
+ * @returns Map of package path to the paths of its workspace dependencies
+ */
+export function getDependencyGraph(packages: string[], config: Config): Map<string, string[]> {
+  const namePattern = new RegExp(`^@${config.name}\\/`);
+  const pathsByName = new Map<string, string>();
+  const graph = new Map<string, string[]>();
+
+  for (const pkgPath of packages) {
+    pathsByName.set(getPackageInfo(pkgPath).name, pkgPath);
+  }
+
+  for (const pkgPath of packages) {
+    const pkg = getPackageInfo(pkgPath);
+    const deps = pkg.dependencies
+      ? Object.keys(pkg.dependencies)
+          .filter((dep) => namePattern.test(dep) && pathsByName.has(dep))
+          .map((dep) => pathsByName.get(dep)!)
+      : [];
+    graph.set(pkgPath, deps);
+  }
+
+  return graph;
+}
+
+/**
+ * Build all packages
+ * @param packages - Package directory paths of the workspace
+ * @param config - Build configuration
+ * @param targets - Packages to build, selected with --package, --filter and --since by default
+ */
+export async function buildAll(
+  packages: string[],
+  config: Config,
+  targets: string[] = selectPackages(packages, config),
+): Promise<boolean> {
   if (packages.length === 0) {
     log('No packages to build', 'info');
     return true;
   }
 
-  const namePattern = new RegExp(`^@${config.name}\\/`);
-
   const startTime = Date.now();
   const timings: Timings = {
     init: 0,
     analysis: 0,
     building: 0,
   };
-  let builtCount = 0;
+  const built: string[] = [];
+  const cached: string[] = [];
+  const failedPackages: string[] = [];
+  const skipped: string[] = [];
+  const order: string[] = [];
   let failed = false;
+  packageReports.clear();
 
   // Initialize display
   if (config.process) {
@@ -72,145 +288,126 @@ export async function buildAll(packages: string[], config: Config): Promise<bool
     timings.init = Date.now() - initStartTime;
   }
 
+  // Dependency analysis
+  const analysisStartTime = Date.now();
+  const graph = getDependencyGraph(targets, config);
+
+  // Without TypeScript, packages do not need each other's declarations and can build in any order
+  const buildGraph = config.build.typescript.enabled
+    ? graph
+    : new Map(Array.from(graph.keys()).map((pkgPath): [string, string[]] => [pkgPath, []]));
+  timings.analysis = Date.now() - analysisStartTime;
+
+  // Hash package contents to skip packages whose output is up to date. Hashes cover every workspace
+  // dependency, including packages that are not selected; packages with the cache turned off are not hashed.
+  const hashes = await computePackageHashes(
+    getDependencyGraph(packages, config),
+    config,
+    await getCachedPackages(targets, config),
+  );
+
   if (config.verbose) {
-    log('Build order:');
-    packages.forEach((pkgPath, index) => {
+    log(`Build order (concurrency ${config.concurrency}):`);
+    targets.forEach((pkgPath, index) => {
       const pkg = getPackageInfo(pkgPath);
       log(`${index + 1}. ${pkg.name}`);
     });
   }
 
-  // If TypeScript is not needed, build all packages in parallel
-  if (!config.build.typescript.enabled || config.package) {
-    const buildStartTime = Date.now();
-    if (config.verbose) {
-      log('Building all packages in parallel...');
-    }
-
-    try {
-      const ps: Promise<void>[] = [];
-      for (const pkgPath of packages) {
-        const pkg = getPackageInfo(pkgPath);
-        const pkgName = pkg.name.replace(namePattern, '');
-        if (config.package && pkgName !== config.package) {
-          continue;
-        }
-        ps.push(
-          build(pkgPath, config).then((result) => {
-            if (result) {
-              builtCount++;
-            } else {
-              failed = true;
-            }
-          }),
-        );
-      }
-      await Promise.all(ps);
-    } catch (error: any) {
-      failed = true;
-      log(error.message, 'error');
-    }
-    timings.building = Date.now() - buildStartTime;
-  } else {
-    // TypeScript mode requires dependency analysis
-    const analysisStartTime = Date.now();
-    const dependencyGraph = new Map<string, string[]>();
-    const packageNameMap = new Map<string, string>();
-
-    // Build dependency graph and package name map
-    for (const pkgPath of packages) {
-      const pkg = getPackageInfo(pkgPath);
-      const pkgName = pkg.name.replace(namePattern, '');
-      packageNameMap.set(pkgName, pkgPath);
-
-      const deps = pkg.dependencies
-        ? Object.keys(pkg.dependencies)
-            .filter((dep) => namePattern.test(dep))
-            .map((dep) => dep.replace(namePattern, ''))
-            .filter((dep) => packages.includes(packageNameMap.get(dep)!))
-        : [];
-      dependencyGraph.set(pkgName, deps);
-
-      if (deps.length > 0) {
-        updatePackageDisplayStatus(pkg.name, 'pending', `Waiting...`, deps);
-      }
+  for (const [pkgPath, deps] of buildGraph) {
+    if (deps.length > 0) {
+      const depNames = deps.map((dep) => getPackageInfo(dep).name);
+      updatePackageDisplayStatus(getPackageInfo(pkgPath).name, 'waiting', 'Waiting...', depNames);
     }
+  }
 
-    let remaining = new Set(Array.from(dependencyGraph.keys()));
-    while (remaining.size > 0) {
-      const group: string[] = [];
-      const toRemove: string[] = [];
-      for (const pkgName of remaining) {
-        const deps = dependencyGraph.get(pkgName)!;
-        if (deps.every((dep) => !remaining.has(dep))) {
-          group.push(packageNameMap.get(pkgName)!);
-          toRemove.push(pkgName);
+  // Build packages as soon as their dependencies are done
+  const buildStartTime = Date.now();
+  try {
+    await runScheduled(
+      buildGraph,
+      async (pkgPath) => {
+        const pkgName = getPackageInfo(pkgPath).name;
+        order.push(pkgName);
+        const result = await build(pkgPath, config, hashes.get(pkgPath));
+        if (result === 'built') {
+          built.push(pkgName);
+        } else if (result === 'cached') {
+          cached.push(pkgName);
+        } else {
+          // Name the number of type errors found by the tsc backend
+          const typeErrors = packageReports.get(pkgPath)?.errors.filter((error) => error.code?.startsWith('TS'));
+          const count = typeErrors?.length || 0;
+          failedPackages.push(count > 0 ? `${pkgName} (${count} type error${count === 1 ? '' : 's'})` : pkgName);
+          failed = true;
         }
-      }
-
-      if (group.length === 0) {
-        log('Circular dependency detected in packages:', 'error');
-        const remainingPkgs = Array.from(remaining).map((name) => name);
-        log(remainingPkgs.join(', '), 'error');
-        process.exit(1);
-      }
-
-      toRemove.forEach((pkg) => remaining.delete(pkg));
-    }
-    timings.analysis = Date.now() - analysisStartTime;
-
-    // Build each group in parallel
-    const buildStartTime = Date.now();
-
-    const builtPackages = new Set<string>();
-    const ps: Promise<boolean>[] = [];
-    for (const [pkgName, deps] of dependencyGraph) {
-      const pkgPath = packageNameMap.get(pkgName)!;
-      try {
-        const buildOne = async () => {
-          while (deps.filter((dep) => !builtPackages.has(packageNameMap.get(dep)!)).length > 0 && !failed) {
-            await new Promise((resolve) => setTimeout(resolve, 200));
-          }
-          return build(pkgPath, config).then((res) => {
-            if (res) {
-              builtCount++;
-              builtPackages.add(pkgPath);
-            } else {
-              failed = true;
-            }
-            return res;
-          });
-        };
-        ps.push(buildOne());
-      } catch (error: any) {
-        failed = true;
-        log(error.message, 'error');
-        break;
-      }
-    }
-    await Promise.all(ps);
-    timings.building = Date.now() - buildStartTime;
+        return result !== 'failed';
+      },
+      {
+        concurrency: config.concurrency,
+        bail: config.bail,
+        onSkip: (pkgPath, cause) => {
+          const reason = markSkipped(pkgPath, config, cause);
+          skipped.push(`${getPackageInfo(pkgPath).name} (${reason})`);
+        },
+      },
+    );
+  } catch (error: any) {
+    failed = true;
+    log(error.message, 'error');
   }
+  timings.building = Date.now() - buildStartTime;
 
   const totalDuration = ((Date.now() - startTime) / 1000).toFixed(2);
+  noticeMessages.forEach((message) => log(message));
+  noticeMessages.length = 0;
   if (failed) {
     log(`Build failed after ${totalDuration}s`, 'error');
     errorMessages.forEach((message) => log(message, 'error'));
-    process.exit(1);
-  } else if (builtCount > 0) {
+    errorMessages.length = 0;
+    if (failedPackages.length > 0) {
+      log(`Failed (${failedPackages.length}): ${failedPackages.join(', ')}`, 'error');
+    }
+    if (skipped.length > 0) {
+      log(`Skipped (${skipped.length}): ${skipped.join(', ')}`, 'warn');
+    }
+    if (built.length + cached.length > 0) {
+      log(
+        `Built (${built.length + cached.length}): ${[...built, ...cached.map((name) => `${name} (cached)`)].join(', ')}`,
+        'success',
+      );
+    }
+  } else if (built.length > 0 || cached.length > 0) {
     if (config.verbose) {
-      console.log();
+      log('', 'info', { noPrefix: true });
       log(`Build Summary:`);
       log(`Initialization: ${(timings.init / 1000).toFixed(2)}s`);
-      if (config.build.typescript.enabled) {
-        log(`Dependency Analysis: ${(timings.analysis / 1000).toFixed(2)}s`);
-      }
+      log(`Dependency Analysis: ${(timings.analysis / 1000).toFixed(2)}s`);
       log(`Building: ${(timings.building / 1000).toFixed(2)}s`);
       log(`Total Time: ${totalDuration}s`);
     }
-    log(`Built ${builtCount} packages in ${totalDuration}s`, 'success');
+    const cachedSuffix = cached.length > 0 ? ` (${cached.length} cached)` : '';
+    log(`Built ${built.length} packages${cachedSuffix} in ${totalDuration}s`, 'success');
   } else {
     log(`No packages built (${totalDuration}s)`, 'info');
   }
+
+  if (config.json || config.report) {
+    writeReport(
+      {
+        success: !failed,
+        startedAt: new Date(startTime).toISOString(),
+        duration: Date.now() - startTime,
+        timings: { ...timings, total: Date.now() - startTime },
+        config: serializeReportConfig(config),
+        order,
+        graph: toNamedGraph(graph),
+        packages: targets
+          .filter((pkgPath) => packageReports.has(pkgPath))
+          .map((pkgPath) => packageReports.get(pkgPath)!),
+      },
+      config,
+    );
+  }
   return !failed;
 }
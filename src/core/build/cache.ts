@@ -0,0 +1,375 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import { globSync } from 'glob';
+import path from 'path';
+import { RollupCache, VERSION as ROLLUP_VERSION } from 'rollup';
+import { fileURLToPath } from 'url';
+import { Config, getPackageConfig } from '../utils/config.js';
+import { getPackageInfo } from '../utils/package.js';
+import { getDefines } from './define.js';
+import { getBinEntryPoints } from './entries.js';
+import { GENERATED_FIELDS } from './exports.js';
+import { getExternals } from './externals.js';
+import { SizeEntry } from './size.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const projectRoot = path.resolve(__dirname, '../../..');
+
+// Lockfiles of the package managers, which pin the versions of bundled and type-checked dependencies
+const LOCKFILES = ['package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lock', 'bun.lockb'];
+
+// Content hashes of workspace files by path, valid while their size and modification time are unchanged
+const fileHashes = new Map<string, { stamp: string; hash: string }>();
+
+interface CacheManifest {
+  hash: string;
+  files: Record<string, string>;
+}
+
+interface RollupCacheFile {
+  key: string;
+  cache: RollupCache;
+}
+
+/**
+ * Gets the version of monoup itself, so that upgrading invalidates the cache
+ */
+function getToolVersion(): string {
+  try {
+    return getPackageInfo(projectRoot).version || '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Hashes the contents of every file in a directory
+ * @param dir - Directory to hash
+ * @returns Map of relative file path to content hash
+ */
+function hashDirectory(dir: string): Record<string, string> {
+  if (!fs.existsSync(dir)) return {};
+
+  const files = globSync('**/*', { cwd: dir, nodir: true, dot: true, posix: true }).sort();
+  return files.reduce<Record<string, string>>((acc, file) => {
+    acc[file] = createHash('sha256')
+      .update(fs.readFileSync(path.join(dir, file)))
+      .digest('hex');
+    return acc;
+  }, {});
+}
+
+/**
+ * Hashes a file that many packages share, such as a lockfile, reading it again only when it changed
+ * @param file - File path
+ * @returns Content hash, empty when the file does not exist
+ */
+function hashSharedFile(file: string): string {
+  if (!fs.existsSync(file)) return '';
+  const { size, mtimeMs } = fs.statSync(file);
+  const stamp = `${size}:${mtimeMs}`;
+  const cached = fileHashes.get(file);
+  if (cached?.stamp === stamp) return cached.hash;
+
+  const hash = createHash('sha256').update(fs.readFileSync(file)).digest('hex');
+  fileHashes.set(file, { stamp, hash });
+  return hash;
+}
+
+/**
+ * Hashes the build output of a package: outDir and the command files written outside of it
+ * @param pkgPath - Package directory path
+ * @param config - Build configuration
+ * @returns Map of file path relative to outDir to content hash
+ */
+function hashOutputs(pkgPath: string, config: Config): Record<string, string> {
+  const outDir = path.resolve(pkgPath, config.outDir);
+  const files = hashDirectory(outDir);
+  for (const entry of getBinEntryPoints(pkgPath, path.resolve(pkgPath, config.srcDir), config)) {
+    const file = path.resolve(pkgPath, entry.target);
+    const relative = path.relative(outDir, file).split(path.sep).join('/');
+    if (!relative.startsWith('..') || !fs.existsSync(file)) continue;
+    files[relative] = createHash('sha256').update(fs.readFileSync(file)).digest('hex');
+  }
+  return files;
+}
+
+/**
+ * Serializes the parts of the config that affect build output
+ * @param config - Build configuration
+ */
+function serializeConfig(config: Config): string {
+  const { cacheDir, rollupCacheDir, cache, sizeReport, ...build } = config.build;
+  const relevant = {
+    srcDir: config.srcDir,
+    outDir: config.outDir,
+    sourcemap: config.sourcemap,
+    production: config.production,
+    treeshake: config.treeshake,
+    // Covers the values of allowed environment variables
+    defines: getDefines(config),
+    build,
+  };
+  return JSON.stringify(relevant, (_, value) => (typeof value === 'function' ? value.toString() : value));
+}
+
+/**
+ * Turns a package name or path into a flat file name
+ * @param name - Name to sanitize
+ */
+export function toCacheFileName(name: string): string {
+  return name.replace(/^@/, '').replace(/[\\/:]/g, '__');
+}
+
+/**
+ * Serializes a package's package.json, leaving out fields that monoup generates itself
+ * @param pkgPath - Package directory path
+ * @param config - Build configuration
+ */
+function serializePackageJson(pkgPath: string, config: Config): string {
+  const content = fs.readFileSync(path.join(pkgPath, 'package.json'), 'utf-8');
+  if (!config.build.generateExports) {
+    return content;
+  }
+
+  // Only the exported subpaths decide what gets built
+  const pkg = JSON.parse(content);
+  const subpaths = Object.keys(pkg.exports || {});
+  GENERATED_FIELDS.forEach((field) => delete pkg[field]);
+  return JSON.stringify({ ...pkg, exports: subpaths });
+}
+
+/**
+ * Gets the path of the cache manifest for a package
+ * @param pkgPath - Package directory path
+ * @param config - Build configuration
+ */
+function getManifestPath(pkgPath: string, config: Config): string {
+  const pkgName = toCacheFileName(getPackageInfo(pkgPath).name);
+  return path.resolve(config.build.cacheDir, 'monoup', `${pkgName}.json`);
+}
+
+/**
+ * Gets the path of the Rollup cache for a package entry
+ * @param pkgPath - Package directory path
+ * @param input - Entry input file
+ * @param config - Build configuration
+ */
+function getRollupCachePath(pkgPath: string, input: string, config: Config): string {
+  const pkgName = toCacheFileName(getPackageInfo(pkgPath).name);
+  const entryName = toCacheFileName(path.relative(pkgPath, input));
+  return path.resolve(config.build.rollupCacheDir, pkgName, `${entryName}.json`);
+}
+
+/**
+ * Computes the key that invalidates stored Rollup caches. Cached modules keep their resolved imports, so the key
+ * covers the package's dependencies and externals: a removed dependency must not stay external.
+ * @param pluginNames - Names of the plugins used for the build
+ * @param pkgPath - Package directory path
+ * @param config - Build configuration
+ */
+export function getRollupCacheKey(pluginNames: string[], pkgPath: string, config: Config): string {
+  const pkg = getPackageInfo(pkgPath);
+  const dependencies = ['dependencies', 'peerDependencies', 'optionalDependencies', 'devDependencies'].map(
+    (field) => pkg[field] || {},
+  );
+  return createHash('sha256')
+    .update(getToolVersion())
+    .update(ROLLUP_VERSION)
+    .update(pluginNames.join(','))
+    .update(serializeConfig(config))
+    .update(JSON.stringify(dependencies))
+    .update(JSON.stringify(getExternals(pkg, config)))
+    .digest('hex');
+}
+
+/**
+ * Loads the stored Rollup cache for a package entry
+ * @param pkgPath - Package directory path
+ * @param input - Entry input file
+ * @param key - Current cache key, see getRollupCacheKey
+ * @param config - Build configuration
+ * @returns The cache, or undefined when missing or stale
+ */
+export function loadRollupCache(pkgPath: string, input: string, key: string, config: Config): RollupCache | undefined {
+  const cachePath = getRollupCachePath(pkgPath, input, config);
+  if (!fs.existsSync(cachePath)) return undefined;
+
+  try {
+    const file: RollupCacheFile = JSON.parse(fs.readFileSync(cachePath, 'utf-8'));
+    return file.key === key ? file.cache : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Stores the Rollup cache of a package entry
+ * @param pkgPath - Package directory path
+ * @param input - Entry input file
+ * @param key - Current cache key, see getRollupCacheKey
+ * @param cache - Cache returned by the bundle
+ * @param config - Build configuration
+ */
+export function saveRollupCache(pkgPath: string, input: string, key: string, cache: RollupCache, config: Config): void {
+  const cachePath = getRollupCachePath(pkgPath, input, config);
+  const file: RollupCacheFile = { key, cache };
+  fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+  fs.writeFileSync(cachePath, JSON.stringify(file));
+}
+
+/**
+ * Computes the content hash of a package
+ * @param pkgPath - Package directory path
+ * @param config - Package build configuration
+ * @param depHashes - Hashes of the package's workspace dependencies
+ * @returns Hex digest covering sources, package.json, tsconfig files, lockfiles, config and dependencies
+ */
+export function hashPackage(pkgPath: string, config: Config, depHashes: string[]): string {
+  const hash = createHash('sha256');
+  hash.update(getToolVersion());
+  hash.update(serializeConfig(config));
+  hash.update(serializePackageJson(pkgPath, config));
+
+  // Compiler options and dependency versions change the output without touching the sources
+  const rootDir = path.resolve(config.rootDir);
+  const sharedFiles = [path.join(rootDir, 'tsconfig.json'), ...LOCKFILES.map((file) => path.join(rootDir, file))];
+  if (path.resolve(pkgPath) !== rootDir) {
+    sharedFiles.push(path.join(pkgPath, 'tsconfig.json'));
+  }
+  sharedFiles.forEach((file) => hash.update(`${path.relative(rootDir, file)}:${hashSharedFile(file)}`));
+
+  const sources = hashDirectory(path.resolve(pkgPath, config.srcDir));
+  for (const [file, fileHash] of Object.entries(sources)) {
+    hash.update(`${file}:${fileHash}`);
+  }
+
+  depHashes.forEach((depHash) => hash.update(depHash));
+  return hash.digest('hex');
+}
+
+/**
+ * Lists the packages that have the build cache turned on
+ * @param pkgPaths - Package directory paths
+ * @param config - Root build configuration
+ */
+export async function getCachedPackages(pkgPaths: string[], config: Config): Promise<string[]> {
+  const cached: string[] = [];
+  for (const pkgPath of pkgPaths) {
+    if ((await getPackageConfig(pkgPath, config)).build.cache) cached.push(pkgPath);
+  }
+  return cached;
+}
+
+/**
+ * Computes content hashes for packages in a dependency graph, and for the packages they depend on
+ * @param graph - Map of package path to the paths of its workspace dependencies
+ * @param config - Root build configuration
+ * @param pkgPaths - Packages to hash, all packages in the graph by default
+ * @returns Map of package path to hash
+ */
+export async function computePackageHashes(
+  graph: Map<string, string[]>,
+  config: Config,
+  pkgPaths: string[] = [...graph.keys()],
+): Promise<Map<string, string>> {
+  const hashes = new Map<string, string>();
+
+  const visit = async (pkgPath: string): Promise<string> => {
+    if (hashes.has(pkgPath)) return hashes.get(pkgPath)!;
+    const depHashes: string[] = [];
+    for (const dep of graph.get(pkgPath) || []) {
+      depHashes.push(await visit(dep));
+    }
+    const hash = hashPackage(pkgPath, await getPackageConfig(pkgPath, config), depHashes);
+    hashes.set(pkgPath, hash);
+    return hash;
+  };
+
+  for (const pkgPath of pkgPaths) {
+    await visit(pkgPath);
+  }
+  return hashes;
+}
+
+/**
+ * Checks whether a package's output, with command files written outside outDir, matches its stored manifest
+ * @param pkgPath - Package directory path
+ * @param hash - Current package hash
+ * @param config - Build configuration
+ */
+export function isPackageCached(pkgPath: string, hash: string, config: Config): boolean {
+  const manifestPath = getManifestPath(pkgPath, config);
+  if (!fs.existsSync(manifestPath)) return false;
+
+  try {
+    const manifest: CacheManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    if (manifest.hash !== hash) return false;
+
+    const files = hashOutputs(pkgPath, config);
+    const expected = Object.keys(manifest.files);
+    return (
+      expected.length > 0 &&
+      expected.length === Object.keys(files).length &&
+      expected.every((file) => files[file] === manifest.files[file])
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Stores the manifest of a freshly built package
+ * @param pkgPath - Package directory path
+ * @param hash - Package hash the output was built from
+ * @param config - Build configuration
+ */
+export function writeManifest(pkgPath: string, hash: string, config: Config): void {
+  const manifestPath = getManifestPath(pkgPath, config);
+  const manifest: CacheManifest = {
+    hash,
+    files: hashOutputs(pkgPath, config),
+  };
+  fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+}
+
+/**
+ * Gets the path of the stored entry sizes for a package
+ * @param pkgPath - Package directory path
+ * @param config - Build configuration
+ */
+function getSizesPath(pkgPath: string, config: Config): string {
+  const pkgName = toCacheFileName(getPackageInfo(pkgPath).name);
+  return path.resolve(config.build.cacheDir, 'monoup', 'sizes', `${pkgName}.json`);
+}
+
+/**
+ * Loads the entry sizes stored by the previous build of a package
+ * @param pkgPath - Package directory path
+ * @param config - Build configuration
+ * @returns The sizes, or undefined when the package has not been measured before
+ */
+export function loadPreviousSizes(pkgPath: string, config: Config): SizeEntry[] | undefined {
+  const sizesPath = getSizesPath(pkgPath, config);
+  if (!fs.existsSync(sizesPath)) return undefined;
+
+  try {
+    return JSON.parse(fs.readFileSync(sizesPath, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Stores the entry sizes of a freshly built package
+ * @param pkgPath - Package directory path
+ * @param sizes - Entry sizes
+ * @param config - Build configuration
+ */
+export function saveSizes(pkgPath: string, sizes: SizeEntry[], config: Config): void {
+  const sizesPath = getSizesPath(pkgPath, config);
+  fs.mkdirSync(path.dirname(sizesPath), { recursive: true });
+  fs.writeFileSync(sizesPath, JSON.stringify(sizes, null, 2));
+}
@@ -0,0 +1,33 @@
+import { Config } from '../utils/config.js';
+
+// Replacements applied to production builds unless overridden
+const PRODUCTION_DEFINES: Record<string, string> = {
+  'process.env.NODE_ENV': '"production"',
+  'import.meta.env.NODE_ENV': '"production"',
+  'import.meta.env.PROD': 'true',
+  'import.meta.env.DEV': 'false',
+  __DEV__: 'false',
+};
+
+/**
+ * Resolves the compile-time replacements of a build
+ * @param config - Build configuration
+ * @returns Map of expression to the JavaScript expression replacing it
+ */
+export function getDefines(config: Config): Record<string, string> {
+  const defines: Record<string, string> = config.production ? { ...PRODUCTION_DEFINES } : {};
+
+  // Allowed environment variables are inlined when set
+  for (const name of config.build.env) {
+    const value = process.env[name];
+    if (value === undefined) continue;
+    defines[`process.env.${name}`] = JSON.stringify(value);
+    defines[`import.meta.env.${name}`] = JSON.stringify(value);
+  }
+
+  // Values given as numbers or booleans, e.g. from the command line, are expressions as well
+  for (const [key, value] of Object.entries(config.build.define)) {
+    defines[key] = typeof value === 'string' ? value : JSON.stringify(value);
+  }
+  return defines;
+}
@@ -0,0 +1,96 @@
+import fs from 'fs';
+import path from 'path';
+import { Plugin, RollupLog } from 'rollup';
+import { Config } from '../utils/config.js';
+import { getPackageInfo } from '../utils/package.js';
+import { isBuiltin } from './platform.js';
+
+// Dependency fields whose packages a package may import, as consumers install them
+const DEPENDENCY_FIELDS = ['dependencies', 'peerDependencies', 'optionalDependencies'];
+
+// Valid npm package names, optionally scoped
+const PACKAGE_NAME = /^(?:@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+
+/**
+ * Gets the package name of a bare import, e.g. `@scope/pkg` for `@scope/pkg/utils`
+ * @param source - Imported module
+ * @returns Package name, or undefined for relative, absolute and aliased imports
+ */
+export function getImportedPackage(source: string): string | undefined {
+  if (source.startsWith('.') || source.startsWith('#') || path.isAbsolute(source) || source.startsWith('\0')) {
+    return undefined;
+  }
+  const parts = source.split('/');
+  const name = source.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+  return PACKAGE_NAME.test(name) ? name : undefined;
+}
+
+/**
+ * Checks whether a package matches an allowlist entry, where a trailing `*` matches any suffix
+ * @param name - Package name
+ * @param allow - Allowed names and patterns
+ */
+function isAllowed(name: string, allow: string[]): boolean {
+  return allow.some((entry) => (entry.endsWith('*') ? name.startsWith(entry.slice(0, -1)) : name === entry));
+}
+
+/**
+ * Finds where a module is imported in a file's source
+ * @param file - Importing file
+ * @param source - Imported module
+ */
+function findImport(file: string, source: string): RollupLog['loc'] {
+  if (!fs.existsSync(file)) return undefined;
+  const code = fs.readFileSync(file, 'utf-8');
+  const index = ['"', "'", '`'].map((quote) => code.indexOf(`${quote}${source}${quote}`)).find((found) => found >= 0);
+  if (index === undefined) return undefined;
+  const lines = code.slice(0, index).split('\n');
+  return { file, line: lines.length, column: lines[lines.length - 1].length };
+}
+
+/**
+ * Creates a plugin that reports bare imports of packages missing from the importing package's package.json.
+ * They would be bundled instead of left external, such as a sibling's dependency hoisted in node_modules.
+ * Imports of devDependencies are reported too, as consumers do not install them, unless they are bundled
+ * on purpose with `bundleDependencies`.
+ * @param pkgPath - Package directory path
+ * @param config - Package build configuration
+ */
+export function strictDependenciesPlugin(pkgPath: string, config: Config): Plugin {
+  const { level, allow } = config.build.strictDependencies;
+  const pkg = getPackageInfo(pkgPath);
+  const declared = new Set(DEPENDENCY_FIELDS.flatMap((field) => Object.keys(pkg[field] || {})));
+  const devDependencies = new Set(Object.keys(pkg.devDependencies || {}));
+  const bundled = config.build.bundleDependencies;
+  // Each import is reported once per build
+  const reported = new Set<string>();
+
+  return {
+    name: 'monoup:strict-dependencies',
+
+    resolveId(source, importer) {
+      if (level === 'off' || !importer || importer.includes(`${path.sep}node_modules${path.sep}`)) return null;
+      const name = getImportedPackage(source);
+      if (!name || name === pkg.name || declared.has(name) || isBuiltin(source) || isAllowed(name, allow)) return null;
+      const isDevDependency = devDependencies.has(name);
+      if (isDevDependency && bundled.includes(name)) return null;
+
+      const key = `${importer}\0${name}`;
+      if (reported.has(key)) return null;
+      reported.add(key);
+      const log: RollupLog = {
+        code: 'UNDECLARED_DEPENDENCY',
+        message: isDevDependency
+          ? `"${name}" is imported but only a devDependency of ${pkg.name}, which consumers do not install`
+          : `"${name}" is imported but not declared in the dependencies of ${pkg.name}`,
+        id: importer,
+        loc: findImport(importer, source),
+      };
+      if (level === 'error') {
+        this.error(log);
+      }
+      this.warn(log);
+      return null;
+    },
+  };
+}
@@ -0,0 +1,86 @@
+import path from 'path';
+import { rollup, RollupLog } from 'rollup';
+import dts from 'rollup-plugin-dts';
+import { Config } from '../utils/config.js';
+import { getPackageInfo } from '../utils/package.js';
+import { bannerPlugin } from './banner.js';
+import { EntryPoint } from './entries.js';
+import { createExternalMatcher } from './externals.js';
+
+/**
+ * Gets the declaration file extension matching a JavaScript output extension
+ * @param extension - Output extension, e.g. `.mjs`
+ * @returns Declaration extension, e.g. `.d.mts`
+ */
+export function getDeclarationExtension(extension: string): string {
+  if (extension.endsWith('.mjs')) return '.d.mts';
+  if (extension.endsWith('.cjs')) return '.d.cts';
+  return '.d.ts';
+}
+
+/**
+ * Lists the declaration extensions emitted for bundled declarations
+ * @param config - Build configuration
+ * @returns `.d.ts` plus one extension per module format that needs its own
+ */
+export function getDeclarationExtensions(config: Config): string[] {
+  const extensions = config.build.formats
+    .filter((format) => format === 'cjs' || format === 'esm')
+    .map((format) => getDeclarationExtension(config.build.extensions[format]));
+  return [...new Set(['.d.ts', ...extensions])];
+}
+
+/**
+ * Rolls the declarations of each entry point into a single file per entry
+ * @param pkgPath - Package directory path
+ * @param entryPoints - Entry points to bundle declarations for
+ * @param config - Build configuration
+ * @param onWarning - Called with every warning, which is still printed as usual
+ * @returns Emitted file names relative to outDir
+ */
+export async function buildDeclarations(
+  pkgPath: string,
+  entryPoints: EntryPoint[],
+  config: Config,
+  onWarning?: (warning: RollupLog) => void,
+): Promise<string[]> {
+  const pkg = getPackageInfo(pkgPath);
+  const outDir = path.resolve(pkgPath, config.outDir);
+  const isExternal = createExternalMatcher(pkg, config, 'node');
+  const results: string[] = [];
+
+  for (const entry of entryPoints) {
+    // Workspace siblings, externals and Node built-ins stay as imports
+    const bundle = await rollup({
+      input: entry.input,
+      external: isExternal,
+      plugins: [
+        dts({
+          tsconfig: path.resolve(config.rootDir, 'tsconfig.json'),
+          compilerOptions: {
+            removeComments: config.build.typescript.removeComments,
+            paths: config.build.typescript.paths,
+          },
+        }),
+        bannerPlugin(pkgPath, config),
+      ],
+      onwarn: (warning, defaultHandler) => {
+        onWarning?.(warning);
+        defaultHandler(warning);
+      },
+    });
+
+    for (const extension of getDeclarationExtensions(config)) {
+      const { output } = await bundle.write({
+        dir: outDir,
+        entryFileNames: `${entry.name}${extension}`,
+        format: 'es',
+      });
+      results.push(...output.map((file) => file.fileName));
+    }
+
+    await bundle.close();
+  }
+
+  return results;
+}
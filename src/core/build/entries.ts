@@ -0,0 +1,308 @@
+import fs from 'fs';
+import { globSync } from 'glob';
+import path from 'path';
+import { Config, OutputFormat } from '../utils/config.js';
+import { getPackageInfo } from '../utils/package.js';
+
+// Source file extensions, in order of preference
+export const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+// Output file extensions that can be built from a source file
+const OUTPUT_EXTENSIONS = ['.js', '.mjs', '.cjs'];
+
+export interface EntryPoint {
+  // Source file to build
+  input: string;
+  // Output file name relative to outDir, without extension
+  name: string;
+  // Subpath in package.json exports, e.g. `.` or `./utils`
+  subpath: string;
+  // Key in package.json exports the entry was resolved from, e.g. `./utils/*`
+  exportKey: string;
+  // Part of the subpath matched by `*` for wildcard exports
+  wildcard?: string;
+}
+
+export interface BinEntryPoint extends EntryPoint {
+  // Command name in package.json bin
+  command: string;
+  // Output file from package.json bin, relative to the package directory
+  target: string;
+  format: OutputFormat;
+}
+
+interface ExportTarget {
+  condition: string;
+  target: string;
+}
+
+/**
+ * Normalizes the exports field into a map of subpath to conditions
+ * @param exports - Value of the exports field
+ */
+function normalizeExports(exports: any): Record<string, any> {
+  if (typeof exports === 'string' || Array.isArray(exports)) {
+    return { '.': exports };
+  }
+  if (exports && typeof exports === 'object') {
+    const isConditions = Object.keys(exports).every((key) => !key.startsWith('.'));
+    return isConditions ? { '.': exports } : exports;
+  }
+  return {};
+}
+
+/**
+ * Collects every target path of an export, following nested conditions and fallback arrays
+ * @param value - Export value
+ * @param condition - Condition the value was found under
+ * @param result - Targets collected so far
+ */
+function collectTargets(value: any, condition = 'default', result: ExportTarget[] = []): ExportTarget[] {
+  if (typeof value === 'string') {
+    result.push({ condition, target: value });
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectTargets(item, condition, result));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([key, child]) => collectTargets(child, key === 'default' ? condition : key, result));
+  }
+  return result;
+}
+
+/**
+ * Checks whether an export target is a JavaScript output built by monoup
+ * @param target - Export target
+ */
+function isBuildTarget({ condition, target }: ExportTarget): boolean {
+  if (condition === 'types' || /\.d\.[mc]?ts$/.test(target)) return false;
+  return OUTPUT_EXTENSIONS.includes(path.extname(target));
+}
+
+/**
+ * Removes a known source or output extension from a path
+ * @param file - File path
+ */
+function stripExtension(file: string): string {
+  const extension = path.extname(file);
+  return [...SOURCE_EXTENSIONS, ...OUTPUT_EXTENSIONS].includes(extension) ? file.slice(0, -extension.length) : file;
+}
+
+/**
+ * Infers source file bases, relative to srcDir, from an export key and its targets
+ * @param key - Export subpath
+ * @param targets - Build targets of the export
+ * @param pkgPath - Package directory path
+ * @param srcDir - Source directory
+ * @param outDir - Output directory
+ * @param defaultBase - Source base for the `.` subpath
+ */
+function inferSourceBases(
+  key: string,
+  targets: ExportTarget[],
+  pkgPath: string,
+  srcDir: string,
+  outDir: string,
+  defaultBase: string,
+): string[] {
+  const bases: string[] = [];
+
+  // Output paths mirror source paths below outDir
+  for (const { target } of targets) {
+    const file = path.resolve(pkgPath, target);
+    for (const dir of [outDir, srcDir]) {
+      const relative = path.relative(dir, file);
+      if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+        bases.push(stripExtension(relative));
+      }
+    }
+  }
+
+  // Fall back to a source named after the subpath
+  bases.push(key === '.' ? defaultBase : stripExtension(key.replace(/^\.\//, '')));
+  return [...new Set(bases.map((base) => base.split(path.sep).join('/')))];
+}
+
+/**
+ * Finds the first existing source file for a list of bases
+ * @param srcDir - Source directory
+ * @param bases - Source file bases relative to srcDir
+ * @returns Absolute source path, or undefined when none exists
+ */
+function findSource(srcDir: string, bases: string[]): string | undefined {
+  for (const base of bases) {
+    for (const candidate of [base, `${base}/index`]) {
+      for (const extension of SOURCE_EXTENSIONS) {
+        const file = path.resolve(srcDir, candidate + extension);
+        if (fs.existsSync(file) && fs.statSync(file).isFile()) {
+          return file;
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Creates an entry point for a source file
+ * @param input - Source file path
+ * @param srcDir - Source directory
+ * @param subpath - Export subpath
+ * @param exportKey - Export key the entry was resolved from
+ * @param wildcard - Part of the subpath matched by `*`
+ */
+function createEntryPoint(
+  input: string,
+  srcDir: string,
+  subpath: string,
+  exportKey: string,
+  wildcard?: string,
+): EntryPoint {
+  const name = path
+    .relative(srcDir, input)
+    .replace(/\.[^./\\]+$/, '')
+    .split(path.sep)
+    .join('/');
+  return { input, name, subpath, exportKey, wildcard };
+}
+
+/**
+ * Expands a wildcard export such as `./utils/*` into one entry per matching source file
+ * @param key - Export key containing `*`
+ * @param bases - Source file bases containing `*`
+ * @param srcDir - Source directory
+ */
+function expandWildcard(key: string, bases: string[], srcDir: string): EntryPoint[] {
+  for (const base of bases) {
+    const [prefix, suffix] = base.split('*');
+    const pattern = `${base}{${SOURCE_EXTENSIONS.join(',')}}`;
+    const files = globSync(pattern, {
+      cwd: srcDir,
+      nodir: true,
+      posix: true,
+      ignore: ['**/*.d.ts', '**/*.d.mts', '**/*.d.cts', '**/*.test.*', '**/*.spec.*'],
+    }).sort();
+
+    if (files.length > 0) {
+      return files.map((file) => {
+        const wildcard = stripExtension(file).slice(prefix.length, suffix ? -suffix.length : undefined);
+        return createEntryPoint(path.resolve(srcDir, file), srcDir, key.replace('*', wildcard), key, wildcard);
+      });
+    }
+  }
+  return [];
+}
+
+/**
+ * Resolves the source entry points of a package from its exports field
+ * @param pkgPath - Package directory path
+ * @param srcDir - Source directory
+ * @param config - Build configuration
+ * @returns Entry points, falling back to the package entry
+ */
+export function getEntryPoints(pkgPath: string, srcDir: string, config: Config): EntryPoint[] {
+  const pkg = getPackageInfo(pkgPath);
+  const outDir = path.resolve(pkgPath, config.outDir);
+  const defaultEntry =
+    path.resolve(pkgPath) === path.resolve(config.rootDir) ? config.build.mainEntry : config.build.packageEntry;
+  const defaultBase = stripExtension(defaultEntry);
+  const entryPoints: EntryPoint[] = [];
+
+  // Handle package.json exports field
+  Object.entries(normalizeExports(pkg.exports)).forEach(([key, value]) => {
+    // Skip excluded subpaths and exports without JavaScript outputs, such as ./package.json
+    const targets = collectTargets(value).filter(isBuildTarget);
+    if (targets.length === 0) return;
+
+    const bases = inferSourceBases(key, targets, pkgPath, srcDir, outDir, defaultBase);
+    if (key.includes('*')) {
+      const expanded = expandWildcard(
+        key,
+        bases.filter((base) => base.includes('*')),
+        srcDir,
+      );
+      if (expanded.length === 0) {
+        throw new Error(`[${pkg.name}] No source files match export "${key}" in ${path.relative(pkgPath, srcDir)}`);
+      }
+      entryPoints.push(...expanded);
+      return;
+    }
+
+    const input = findSource(srcDir, bases);
+    if (!input) {
+      const tried = bases.map((base) => `${base}.{${SOURCE_EXTENSIONS.map((ext) => ext.slice(1)).join(',')}}`);
+      throw new Error(
+        `[${pkg.name}] Cannot find source for export "${key}" in ${path.relative(pkgPath, srcDir)} (tried ${tried.join(', ')})`,
+      );
+    }
+    entryPoints.push(createEntryPoint(input, srcDir, key, key));
+  });
+
+  // If no exports field or empty, fallback to default entry; packages that only provide commands need none
+  if (entryPoints.length === 0) {
+    const input = findSource(srcDir, [defaultBase]);
+    const isCommandOnly = !pkg.main && !pkg.module && normalizeBin(pkg).length > 0;
+    if (input) {
+      entryPoints.push(createEntryPoint(input, srcDir, '.', '.'));
+    } else if (!isCommandOnly) {
+      throw new Error(`[${pkg.name}] Cannot find entry ${defaultEntry} in ${path.relative(pkgPath, srcDir)}`);
+    }
+  }
+
+  // Subpaths pointing to the same output are built once
+  return entryPoints.filter((entry, index) => entryPoints.findIndex((other) => other.name === entry.name) === index);
+}
+
+/**
+ * Normalizes the bin field into a list of command name and target pairs
+ * @param pkg - Package information
+ */
+function normalizeBin(pkg: Record<string, any>): [string, string][] {
+  if (typeof pkg.bin === 'string') {
+    // A single command is named after the package
+    return [[pkg.name.replace(/^@[^/]+\//, ''), pkg.bin]];
+  }
+  return pkg.bin && typeof pkg.bin === 'object' ? Object.entries(pkg.bin) : [];
+}
+
+/**
+ * Resolves the source entry points of a package's commands from its bin field
+ * @param pkgPath - Package directory path
+ * @param srcDir - Source directory
+ * @param config - Build configuration
+ * @returns One entry point per command with a JavaScript target
+ */
+export function getBinEntryPoints(pkgPath: string, srcDir: string, config: Config): BinEntryPoint[] {
+  const pkg = getPackageInfo(pkgPath);
+  const outDir = path.resolve(pkgPath, config.outDir);
+  const entryPoints: BinEntryPoint[] = [];
+
+  for (const [command, target] of normalizeBin(pkg)) {
+    const extension = path.extname(target);
+    if (!OUTPUT_EXTENSIONS.includes(extension)) continue;
+
+    // Targets are looked up like exports, then by command name and by the target's file name
+    const bases = [
+      ...inferSourceBases(`./${command}`, [{ condition: 'default', target }], pkgPath, srcDir, outDir, command),
+      stripExtension(path.basename(target)),
+    ];
+    const input = findSource(srcDir, bases);
+    if (!input) {
+      const tried = bases.map((base) => `${base}.{${SOURCE_EXTENSIONS.map((ext) => ext.slice(1)).join(',')}}`);
+      throw new Error(
+        `[${pkg.name}] Cannot find source for bin "${command}" in ${path.relative(pkgPath, srcDir)} (tried ${tried.join(', ')})`,
+      );
+    }
+    // The module format of a .js file follows the package type, as Node decides it the same way
+    const isModule = extension === '.mjs' || (extension === '.js' && pkg.type === 'module');
+    entryPoints.push({
+      ...createEntryPoint(input, srcDir, `bin:${command}`, `bin:${command}`),
+      command,
+      target,
+      format: isModule ? 'esm' : 'cjs',
+    });
+  }
+
+  // Commands pointing to the same file are built once
+  return entryPoints.filter(
+    (entry, index) => entryPoints.findIndex((other) => other.target === entry.target) === index,
+  );
+}
@@ -0,0 +1,199 @@
+import fs from 'fs';
+import path from 'path';
+import { Config } from '../utils/config.js';
+import { clearPackageInfo, getPackageInfo } from '../utils/package.js';
+import { getDeclarationExtension } from './dts.js';
+import { EntryPoint, getEntryPoints } from './entries.js';
+import { getPlatformBuilds } from './platform.js';
+
+// package.json fields written from the build outputs
+export const GENERATED_FIELDS = ['main', 'module', 'types', 'typesVersions', 'exports'];
+
+/**
+ * Converts a file path to a `./`-prefixed path relative to the package
+ * @param pkgPath - Package directory path
+ * @param file - Absolute file path
+ */
+function toPackagePath(pkgPath: string, file: string): string {
+  return `./${path.relative(pkgPath, file).split(path.sep).join('/')}`;
+}
+
+/**
+ * Gets the output name of an entry, with `*` in place of the part matched by a wildcard export
+ * @param entry - Entry point
+ */
+function getOutputPattern(entry: EntryPoint): string {
+  if (entry.wildcard === undefined) return entry.name;
+  const index = entry.name.lastIndexOf(entry.wildcard);
+  return `${entry.name.slice(0, index)}*${entry.name.slice(index + entry.wildcard.length)}`;
+}
+
+/**
+ * Flattens a JSON value into a map of property paths to serialized values
+ * @param value - Value to flatten
+ * @param prefix - Property path of the value
+ * @param result - Map to add entries to
+ */
+function flatten(value: any, prefix: string, result = new Map<string, string>()): Map<string, string> {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    Object.entries(value).forEach(([key, child]) => {
+      const childPath = /^[A-Za-z_$][\w$]*$/.test(key) ? `${prefix}.${key}` : `${prefix}[${JSON.stringify(key)}]`;
+      flatten(child, childPath, result);
+    });
+  } else if (value !== undefined) {
+    result.set(prefix, JSON.stringify(value));
+  }
+  return result;
+}
+
+/**
+ * Describes the differences between two sets of package.json fields
+ * @param before - Fields before the update
+ * @param after - Fields after the update
+ * @returns Diff lines prefixed with `+`, `-` or `~`
+ */
+function diffFields(before: Record<string, any>, after: Record<string, any>): string[] {
+  const lines: string[] = [];
+  for (const field of GENERATED_FIELDS) {
+    const oldValues = flatten(before[field], field);
+    const newValues = flatten(after[field], field);
+
+    oldValues.forEach((value, key) => {
+      if (!newValues.has(key)) {
+        lines.push(`- ${key}: ${value}`);
+      } else if (newValues.get(key) !== value) {
+        lines.push(`~ ${key}: ${value} -> ${newValues.get(key)}`);
+      }
+    });
+    newValues.forEach((value, key) => {
+      if (!oldValues.has(key)) {
+        lines.push(`+ ${key}: ${value}`);
+      }
+    });
+  }
+  return lines;
+}
+
+/**
+ * Computes the entry point fields of a package from its build entries and formats
+ * @param pkgPath - Package directory path
+ * @param config - Build configuration
+ * @returns Values for the main, module, types, typesVersions and exports fields
+ */
+export function generatePackageFields(pkgPath: string, config: Config): Record<string, any> {
+  const pkg = getPackageInfo(pkgPath);
+  const srcDir = path.resolve(pkgPath, config.srcDir);
+  const outDir = path.resolve(pkgPath, config.outDir);
+  const entryPoints = getEntryPoints(pkgPath, srcDir, config);
+  const { formats, extensions, typescript } = config.build;
+  const hasTypes = typescript.enabled && typescript.declaration;
+  const [defaultBuild, ...platformBuilds] = getPlatformBuilds(config);
+
+  const exportsMap: Record<string, any> = {};
+  const typesVersions: Record<string, string[]> = {};
+  let rootTypes: string | undefined;
+  for (const entry of entryPoints) {
+    // Wildcard exports are written back as a single pattern
+    const subpath = entry.wildcard !== undefined ? entry.exportKey : entry.subpath;
+    if (subpath in exportsMap) continue;
+    const name = getOutputPattern(entry);
+    const output = (extension: string) => toPackagePath(pkgPath, path.join(outDir, name + extension));
+    const types = output('.d.ts');
+
+    // Bundled declarations come in one flavor per module format, shared by all platforms
+    const formatTarget = (extension: string, suffix: string) => {
+      const declaration = typescript.bundleDeclarations ? getDeclarationExtension(extension) : '.d.ts';
+      return hasTypes && declaration !== '.d.ts'
+        ? { types: output(declaration), default: output(suffix + extension) }
+        : output(suffix + extension);
+    };
+    const moduleConditions = (suffix: string) => {
+      const conditions: Record<string, any> = {};
+      if (formats.includes('esm')) {
+        conditions.import = formatTarget(extensions.esm, suffix);
+      }
+      if (formats.includes('cjs')) {
+        conditions.require = formatTarget(extensions.cjs, suffix);
+      }
+      return conditions;
+    };
+
+    // Platform conditions must come before the default files they override. With several platforms the
+    // first one gets a condition too, so that it is picked over another platform a resolver also matches.
+    const defaults = moduleConditions(defaultBuild.suffix);
+    const conditions: Record<string, any> = {};
+    if (platformBuilds.length > 0 && defaultBuild.platform !== 'neutral') {
+      conditions[defaultBuild.platform] = defaults;
+    }
+    platformBuilds.forEach(({ platform, suffix }) => (conditions[platform] = moduleConditions(suffix)));
+    Object.assign(conditions, defaults);
+
+    // The types condition must come first to be picked up by TypeScript
+    exportsMap[subpath] = Object.values(defaults).some((target) => typeof target === 'object')
+      ? conditions
+      : { ...(hasTypes ? { types } : {}), ...conditions };
+
+    // Older TypeScript versions resolve subpath types through typesVersions
+    if (hasTypes && subpath !== '.') {
+      typesVersions[subpath.replace(/^\.\//, '')] = [types];
+    }
+    if (hasTypes && subpath === '.') {
+      rootTypes = types;
+    }
+
+    // Style sheets extracted from the entry can be imported on their own
+    if (entry.wildcard === undefined && fs.existsSync(path.join(outDir, `${name}.css`))) {
+      exportsMap[`./${name}.css`] = output('.css');
+    }
+  }
+
+  // Keep hand-written subpaths that are not built, such as ./package.json
+  if (pkg.exports && typeof pkg.exports === 'object') {
+    Object.entries(pkg.exports).forEach(([key, value]) => {
+      if (key.startsWith('.') && !(key in exportsMap)) {
+        exportsMap[key] = value;
+      }
+    });
+  }
+
+  // Nested format conditions carry their file in the default condition
+  const rootExport = exportsMap['.'] || {};
+  const target = (value: any) => (typeof value === 'object' ? value?.default : value);
+  return {
+    main: target(rootExport.require) ?? target(rootExport.import),
+    module: target(rootExport.import),
+    types: rootTypes,
+    typesVersions: Object.keys(typesVersions).length > 0 ? { '*': typesVersions } : undefined,
+    exports: exportsMap,
+  };
+}
+
+/**
+ * Writes generated entry point fields to a package's package.json
+ * @param pkgPath - Package directory path
+ * @param config - Build configuration
+ * @returns Diff lines describing the changes, empty when the file is unchanged
+ */
+export function syncPackageExports(pkgPath: string, config: Config): string[] {
+  const pkgJsonPath = path.resolve(pkgPath, 'package.json');
+  const pkg = JSON.parse(fs.readFileSync(pkgJsonPath, 'utf-8'));
+  const fields = generatePackageFields(pkgPath, config);
+
+  const changes = diffFields(pkg, fields);
+  if (changes.length === 0) {
+    return [];
+  }
+
+  // Update fields in place to keep the existing key order
+  for (const field of GENERATED_FIELDS) {
+    if (fields[field] === undefined) {
+      delete pkg[field];
+    } else {
+      pkg[field] = fields[field];
+    }
+  }
+
+  fs.writeFileSync(pkgJsonPath, JSON.stringify(pkg, null, 2) + '\n');
+  clearPackageInfo(pkgPath);
+  return changes;
+}
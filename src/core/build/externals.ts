@@ -0,0 +1,35 @@
+import { Config, Platform } from '../utils/config.js';
+import { isBuiltin } from './platform.js';
+
+/**
+ * Lists the modules a package leaves external instead of bundling
+ * @param pkg - Package information
+ * @param config - Build configuration
+ * @returns Names of external modules, without those listed in `bundleDependencies`
+ */
+export function getExternals(pkg: Record<string, any>, config: Config): string[] {
+  const bundled = config.build.bundleDependencies;
+  return [
+    ...(pkg.dependencies ? Object.keys(pkg.dependencies) : []),
+    ...(pkg.peerDependencies ? Object.keys(pkg.peerDependencies) : []),
+    ...(config.build.baseExternals ?? []),
+  ].filter((name) => !bundled.includes(name));
+}
+
+/**
+ * Creates a matcher for the imports a build leaves external: external modules along with their subpaths,
+ * such as `lodash/fp`, and Node built-ins with or without the `node:` prefix on every platform but browser,
+ * where the browser builtins plugin reports them instead
+ * @param pkg - Package information
+ * @param config - Build configuration
+ * @param platform - Platform of the build
+ */
+export function createExternalMatcher(
+  pkg: Record<string, any>,
+  config: Config,
+  platform: Platform,
+): (id: string) => boolean {
+  const externals = getExternals(pkg, config);
+  return (id) =>
+    externals.some((name) => id === name || id.startsWith(`${name}/`)) || (platform !== 'browser' && isBuiltin(id));
+}
@@ -1,9 +1,9 @@
-import fs from 'fs';
-import path from 'path';
 import { buildAll } from './builder.js';
+import { watchPackages } from './watch.js';
 import { getConfig, Config } from '../utils/config.js';
-import { log } from '../utils/display.js';
-import { sortPackagesByDependencies } from '../utils/package.js';
+import { log, logToStderr } from '../utils/display.js';
+import { selectPackages } from '../utils/filter.js';
+import { getWorkspacePackages, sortPackagesByDependencies } from '../utils/package.js';
 
 let verbose = false;
 
@@ -14,6 +14,11 @@ let verbose = false;
 export async function build(options: Partial<Config> = {}): Promise<void> {
   let success = true;
 
+  // The JSON report owns stdout
+  if (options.json) {
+    logToStderr();
+  }
+
   log('Starting build...', 'info');
 
   // Retrieve configuration with CLI options
@@ -23,22 +28,23 @@ export async function build(options: Partial<Config> = {}): Promise<void> {
 
   // Get packages to build
   let packages = [
-    ...(config.monorepo
-      ? [
-          ...(config.build.main ? [rootDir] : []),
-          ...fs
-            .readdirSync(path.resolve(rootDir, config.packagesDir))
-            .map((dir) => path.resolve(rootDir, config.packagesDir, dir))
-            .filter((dir) => fs.statSync(dir).isDirectory()),
-        ]
-      : [rootDir]),
+    ...(config.monorepo ? [...(config.build.main ? [rootDir] : []), ...getWorkspacePackages(config)] : [rootDir]),
   ];
 
   // Sort packages by dependency order
   packages = sortPackagesByDependencies(packages, config);
 
+  // Select packages by --package, --filter and --since once, for the build and the watcher
+  const targets = selectPackages(packages, config);
+
   // Build all packages
-  success = await buildAll(packages, config);
+  success = await buildAll(packages, config, targets);
+
+  // Keep rebuilding on changes instead of exiting
+  if (config.watch) {
+    await watchPackages(packages, config, targets);
+    return;
+  }
 
   process.exit(success ? 0 : 1);
 }
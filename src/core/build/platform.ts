@@ -0,0 +1,52 @@
+import { builtinModules } from 'module';
+import { Plugin } from 'rollup';
+import { Config, Platform } from '../utils/config.js';
+
+export interface PlatformBuild {
+  platform: Platform;
+  // Inserted before the output extension, empty for the default build
+  suffix: string;
+  // Whether iife and umd bundles come from this build
+  scripts: boolean;
+}
+
+// Node built-in modules, with and without the node: prefix
+const BUILTINS = new Set([...builtinModules, ...builtinModules.map((name) => `node:${name}`)]);
+
+/**
+ * Checks whether an import refers to a Node built-in module
+ * @param id - Imported module
+ */
+export function isBuiltin(id: string): boolean {
+  return BUILTINS.has(id) || id.startsWith('node:');
+}
+
+/**
+ * Lists the builds to run for the configured platforms
+ * @param config - Build configuration
+ * @returns One build per platform, the first writing the unsuffixed default files
+ */
+export function getPlatformBuilds(config: Config): PlatformBuild[] {
+  const platforms = ([] as Platform[]).concat(config.build.platform);
+  // Browser script bundles belong with the browser build when there is one
+  const scriptPlatform = platforms.includes('browser') ? 'browser' : platforms[0];
+  return platforms.map((platform, index) => ({
+    platform,
+    suffix: index === 0 ? '' : `.${platform}`,
+    scripts: platform === scriptPlatform,
+  }));
+}
+
+/**
+ * Creates a plugin that rejects Node built-in imports, which cannot be bundled for browsers
+ */
+export function browserBuiltinsPlugin(): Plugin {
+  return {
+    name: 'monoup:browser-builtins',
+    resolveId(source, importer) {
+      if (!isBuiltin(source)) return null;
+      const from = importer ? ` imported by ${importer}` : '';
+      this.error(`Node built-in module "${source}"${from} cannot be used in a browser build`);
+    },
+  };
+}
@@ -0,0 +1,142 @@
+import fs from 'fs';
+import path from 'path';
+import type { TransformFailure } from 'esbuild';
+import { RollupError, RollupLog } from 'rollup';
+import { Config } from '../utils/config.js';
+import { getPackageInfo } from '../utils/package.js';
+import { SizeEntry } from './size.js';
+
+export type PackageReportStatus = 'built' | 'cached' | 'failed' | 'skipped';
+
+// Warning or error, with its source location when known
+export interface BuildMessage {
+  message: string;
+  code?: string;
+  plugin?: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  frame?: string;
+}
+
+export interface EmittedFile {
+  // File path relative to the package directory
+  file: string;
+  size: number;
+}
+
+export interface PackageReport {
+  name: string;
+  path: string;
+  status: PackageReportStatus;
+  // Name of the failed dependency a skipped package was waiting for
+  skippedBecause?: string;
+  duration: number;
+  files: EmittedFile[];
+  sizes?: SizeEntry[];
+  // HTML treemap written with --analyze
+  analysis?: string;
+  warnings: BuildMessage[];
+  errors: BuildMessage[];
+}
+
+export interface BuildReport {
+  success: boolean;
+  startedAt: string;
+  duration: number;
+  timings: Record<string, number>;
+  config: Record<string, any>;
+  // Package names in the order their builds started
+  order: string[];
+  // Package name to the names of its workspace dependencies
+  graph: Record<string, string[]>;
+  packages: PackageReport[];
+}
+
+/**
+ * Checks whether a warning or error comes from Rollup, which tags its logs and the errors of its plugins
+ * @param error - Rollup log or error
+ */
+function isRollupError(error: RollupLog | Error): error is RollupError {
+  return 'code' in error || 'plugin' in error || 'loc' in error;
+}
+
+/**
+ * Checks whether an error is an esbuild failure, which lists its messages with their locations
+ * @param error - Error to check
+ */
+function isEsbuildFailure(error: RollupLog | Error): error is TransformFailure {
+  return Array.isArray((error as Partial<TransformFailure>).errors);
+}
+
+/**
+ * Converts a Rollup warning or a thrown error into a report message
+ * @param error - Rollup log or error
+ */
+export function toBuildMessage(error: RollupLog | Error): BuildMessage {
+  const { message, code, plugin, loc, id, frame }: RollupError = isRollupError(error)
+    ? error
+    : { message: error.message };
+  // esbuild errors carry their location in a list of messages instead
+  const location = loc ?? (isEsbuildFailure(error) ? (error.errors[0]?.location ?? undefined) : undefined);
+  return {
+    message,
+    code,
+    plugin,
+    file: location?.file ?? id,
+    line: location?.line,
+    column: location?.column,
+    frame,
+  };
+}
+
+/**
+ * Lists emitted files with their size on disk
+ * @param pkgPath - Package directory path
+ * @param files - File names relative to the output directory
+ * @param config - Package build configuration
+ */
+export function getEmittedFiles(pkgPath: string, files: string[], config: Config): EmittedFile[] {
+  const outDir = path.resolve(pkgPath, config.outDir);
+  return [...new Set(files)].map((file) => {
+    const filePath = path.resolve(outDir, file);
+    return {
+      file: path.relative(pkgPath, filePath).split(path.sep).join('/'),
+      size: fs.existsSync(filePath) ? fs.statSync(filePath).size : 0,
+    };
+  });
+}
+
+/**
+ * Converts a dependency graph of package paths to one of package names
+ * @param graph - Map of package path to the paths of its dependencies
+ */
+export function toNamedGraph(graph: Map<string, string[]>): Record<string, string[]> {
+  const name = (pkgPath: string) => getPackageInfo(pkgPath).name;
+  return Object.fromEntries([...graph].map(([pkgPath, deps]) => [name(pkgPath), deps.map(name)]));
+}
+
+/**
+ * Serializes the resolved config, with functions as their source
+ * @param config - Build configuration
+ */
+export function serializeReportConfig(config: Config): Record<string, any> {
+  return JSON.parse(JSON.stringify(config, (_, value) => (typeof value === 'function' ? value.toString() : value)));
+}
+
+/**
+ * Writes a build report to stdout for `--json` and to the `--report` file
+ * @param report - Build report
+ * @param config - Build configuration
+ */
+export function writeReport(report: BuildReport, config: Config): void {
+  const content = JSON.stringify(report, null, 2);
+  if (config.report) {
+    const reportPath = path.resolve(config.rootDir, config.report);
+    fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+    fs.writeFileSync(reportPath, content + '\n');
+  }
+  if (config.json) {
+    process.stdout.write(content + '\n');
+  }
+}
@@ -3,154 +3,273 @@ import json from '@rollup/plugin-json';
 import { nodeResolve } from '@rollup/plugin-node-resolve';
 import typescript from '@rollup/plugin-typescript';
 import path from 'path';
-import { ExternalOption, OutputOptions, rollup, RollupOptions } from 'rollup';
+import { OutputChunk, OutputOptions, Plugin, rollup, RollupLog, RollupOptions } from 'rollup';
 import esbuild from 'rollup-plugin-esbuild';
-import { Config } from '../utils/config.js';
+import { Config, OutputFormat, Platform } from '../utils/config.js';
 import { getPackageInfo } from '../utils/package.js';
+import { getRollupCacheKey, loadRollupCache, saveRollupCache } from './cache.js';
+import { buildDeclarations } from './dts.js';
+import { moduleGraphPlugin, ModuleImports } from './analyze.js';
+import { assetsPlugin } from './assets.js';
+import { bannerPlugin } from './banner.js';
+import { binPlugin } from './bin.js';
+import { getDefines } from './define.js';
+import { strictDependenciesPlugin } from './dependencies.js';
+import { EntryPoint, getBinEntryPoints, getEntryPoints, SOURCE_EXTENSIONS } from './entries.js';
+import { createExternalMatcher } from './externals.js';
+import { browserBuiltinsPlugin, getPlatformBuilds } from './platform.js';
 
-// Create rollup configuration for a package
-interface EntryPoint {
-  input: string;
+// Output of one entry point in one format
+export interface EntryOutput {
+  entry: EntryPoint;
+  format: OutputFormat;
+  platform: Platform;
+  chunks: OutputChunk[];
+  // Imports of every module in the bundle, collected with --analyze
+  moduleGraph?: Map<string, ModuleImports>;
 }
 
-function getEntryPoints(pkgPath: string, srcDir: string, config: Config): EntryPoint[] {
-  const pkg = getPackageInfo(pkgPath);
-  const entryPoints: EntryPoint[] = [];
-
-  // Handle package.json exports field
-  if (pkg.exports) {
-    Object.entries(pkg.exports).forEach(([key, value]: [string, any]) => {
-      const outputBase = key === '.' ? 'index' : key.replace(/^\.\//, '');
-
-      // Handle different export formats
-      if (typeof value === 'object' && value !== null) {
-        // Infer source file path from output path
-        const srcFile = outputBase + '.ts';
-        const formats: Record<string, string> = {};
-
-        // Map output formats
-        if (value.require) {
-          formats.cjs = value.require.replace(/^\.\//, '');
-        }
-        if (value.import) {
-          formats.es = value.import.replace(/^\.\//, '');
-        }
-
-        if (Object.keys(formats).length > 0) {
-          entryPoints.push({
-            input: path.resolve(srcDir, srcFile),
-          });
-        }
-      } else if (typeof value === 'string') {
-        // Handle simple string exports
-        const inputFile = value.replace(/^\.\//, '');
-        entryPoints.push({
-          input: path.resolve(srcDir, inputFile),
-        });
-      }
-    });
-  }
+export interface PackageBuildResult {
+  // Names of all written files
+  files: string[];
+  // Written chunks of each entry point per format
+  outputs: EntryOutput[];
+}
 
-  // If no exports field or empty, fallback to default entry
-  if (entryPoints.length === 0) {
-    entryPoints.push({
-      input: path.resolve(srcDir, 'index.ts'),
-    });
-  }
+/**
+ * Derives a global variable name from a package name, e.g. `@scope/my-lib` becomes `myLib`
+ * @param pkgName - Package name
+ */
+function getGlobalName(pkgName: string): string {
+  return pkgName
+    .replace(/^@[^/]+\//, '')
+    .replace(/[^a-zA-Z0-9]+(.)?/g, (_, char?: string) => (char ? char.toUpperCase() : ''))
+    .replace(/^[0-9]/, '_$&');
+}
 
-  return entryPoints;
+// Rollup options for one entry point on one platform
+export interface EntryRollupOptions extends RollupOptions {
+  entry: EntryPoint;
+  platform: Platform;
 }
 
 // Create rollup configuration for a package
-export function createRollupConfig(pkgPath: string, config: Config): RollupOptions[] {
+export function createRollupConfig(pkgPath: string, config: Config): EntryRollupOptions[] {
   const pkg = getPackageInfo(pkgPath);
   const srcDir = path.resolve(pkgPath, config.srcDir);
   const outDir = path.resolve(pkgPath, config.outDir);
   const entryPoints = getEntryPoints(pkgPath, srcDir, config);
+  const globalName = config.build.globalName || getGlobalName(pkg.name);
+
+  /**
+   * Configures the plugins of one build
+   * @param platform - Platform the build targets
+   * @param compileTypeScript - Whether the TypeScript plugin compiles sources and emits declarations
+   * @param outputPlugins - Plugins that process the rendered code before banners are added
+   */
+  const getPlugins = (platform: Platform, compileTypeScript: boolean, outputPlugins: Plugin[] = []): Plugin[] => {
+    // Imports are checked before anything resolves them, and assets come next so that they are not resolved as modules
+    const plugins = [
+      strictDependenciesPlugin(pkgPath, config),
+      assetsPlugin(srcDir, config),
+      commonjs(),
+      nodeResolve({
+        extensions: SOURCE_EXTENSIONS,
+        modulePaths: config.build.moduleDirectories,
+        ...(platform === 'node' && { exportConditions: ['node'], preferBuiltins: true }),
+        ...(platform === 'browser' && { exportConditions: ['browser'], browser: true, preferBuiltins: false }),
+      }),
+      ...(platform === 'browser' ? [browserBuiltinsPlugin()] : []),
+      json(),
+    ];
 
-  // Define external dependencies
-  const externals: ExternalOption = [
-    ...(pkg.dependencies ? Object.keys(pkg.dependencies) : []),
-    ...(pkg.peerDependencies ? Object.keys(pkg.peerDependencies) : []),
-    ...(config.build.baseExternals ?? []),
-  ];
-
-  // Configure plugins for rollup
-  const plugins = [
-    esbuild({
-      minify: config.production,
-      target: config.build.target,
-    }),
-    commonjs(),
-    nodeResolve({
-      extensions: ['.ts', '.js', '.mjs'],
-      modulePaths: config.build.moduleDirectories,
-    }),
-    json(),
-  ];
-
-  // Add TypeScript plugins if enabled
-  if (config.build.typescript.enabled) {
+    if (compileTypeScript) {
+      plugins.push(
+        typescript({
+          tsconfig: path.resolve(config.rootDir, 'tsconfig.json'),
+          compilerOptions: {
+            target: config.build.target,
+            removeComments: config.build.typescript.removeComments,
+            // Bundled declarations are emitted separately per entry
+            declaration: config.build.typescript.declaration && !config.build.typescript.bundleDeclarations,
+            declarationMap: config.sourcemap && !config.build.typescript.bundleDeclarations,
+            paths: config.build.typescript.paths ?? [],
+          },
+          sourceMap: config.sourcemap,
+          declarationMap: config.sourcemap && !config.build.typescript.bundleDeclarations,
+          rootDir: srcDir,
+          outDir: outDir,
+          include: [`${srcDir}/**/*`],
+          exclude: ['node_modules', '**/*.test.ts'],
+          outputToFilesystem: true,
+        }),
+      );
+    }
+
+    // esbuild runs after the TypeScript plugin, which replaces the code of .ts files with its own output,
+    // and compiles TypeScript itself in builds without it. Banners are added to the minified code.
     plugins.push(
-      typescript({
-        tsconfig: path.resolve(config.rootDir, 'tsconfig.json'),
-        compilerOptions: {
-          target: config.build.target,
-          removeComments: config.build.typescript.removeComments,
-          declaration: config.build.typescript.declaration,
-          declarationMap: config.sourcemap,
-          paths: config.build.typescript.paths ?? [],
-        },
-        sourceMap: config.sourcemap,
-        declarationMap: config.sourcemap,
-        rootDir: srcDir,
-        outDir: outDir,
-        include: [`${srcDir}/**/*`],
-        exclude: ['node_modules', '**/*.test.ts'],
-        outputToFilesystem: true,
+      esbuild({
+        minify: config.production,
+        target: config.build.target,
+        platform,
+        define: getDefines(config),
+        loaders: { '.mts': 'ts', '.cts': 'ts' },
       }),
+      ...outputPlugins,
+      bannerPlugin(pkgPath, config),
     );
-  }
+    return plugins;
+  };
+
+  const builds = getPlatformBuilds(config).flatMap(({ platform, suffix, scripts }, index) => {
+    const externals = createExternalMatcher(pkg, config, platform);
+    // TypeScript plugins run if enabled, once for the default build, which also emits declarations.
+    // The tsc backend checks types separately.
+    const { enabled, backend } = config.build.typescript;
+    const plugins = getPlugins(platform, enabled && backend === 'plugin' && index === 0);
+
+    // Create rollup configurations for each entry point
+    return entryPoints.map((entry): EntryRollupOptions => {
+      const entryName = entry.name;
+      return {
+        entry,
+        platform,
+        input: entry.input,
+        external: externals,
+        treeshake: config.treeshake,
+        plugins,
+        output: config.build.formats
+          .filter((format) => scripts || (format !== 'iife' && format !== 'umd'))
+          .map((format): OutputOptions => {
+            // Browser script formats are emitted as one self-contained file per entry
+            if (format === 'iife' || format === 'umd') {
+              return {
+                dir: outDir,
+                entryFileNames: `${entryName}${config.build.extensions[format]}`,
+                format,
+                name: globalName,
+                globals: config.build.globals,
+                freeze: false,
+                sourcemap: config.sourcemap,
+                inlineDynamicImports: true,
+                exports: 'named' as const,
+              };
+            }
+            return {
+              dir: outDir,
+              // Bundled dependencies go to vendor/, as npm leaves node_modules directories out of packages
+              entryFileNames: ({ name }) =>
+                `${name.replace(/(^|\/)node_modules\//g, '$1vendor/')}${suffix}${config.build.extensions[format]}`,
+              format,
+              freeze: false,
+              sourcemap: config.sourcemap,
+              preserveModules: true,
+              preserveModulesRoot: srcDir,
+              exports: 'named' as const,
+            };
+          }),
+      };
+    });
+  });
 
-  // Create rollup configurations for each entry point
-  return entryPoints.map((entry) => ({
-    input: entry.input,
-    external: externals,
-    treeshake: config.treeshake,
-    plugins,
-    output: config.build.formats
-      .map((format) => {
-        return {
-          dir: outDir,
-          entryFileNames: `[name]${config.build.extensions[format]}`,
-          format,
+  // Commands run on Node and are bundled into the single file named in the bin field, as a shebang
+  // only works at the top of the file that is executed
+  const binBuilds = getBinEntryPoints(pkgPath, srcDir, config).map((entry): EntryRollupOptions => {
+    const file = path.resolve(pkgPath, entry.target);
+    return {
+      entry,
+      platform: 'node',
+      input: entry.input,
+      external: createExternalMatcher(pkg, config, 'node'),
+      treeshake: config.treeshake,
+      plugins: getPlugins('node', false, [binPlugin()]),
+      output: [
+        {
+          dir: path.dirname(file),
+          entryFileNames: path.basename(file),
+          format: entry.format,
           freeze: false,
           sourcemap: config.sourcemap,
-          preserveModules: true,
-          preserveModulesRoot: srcDir,
-          exports: 'named' as const,
-        };
-      })
-      .filter((output) => output !== null),
-  }));
+          inlineDynamicImports: true,
+        },
+      ],
+    };
+  });
+
+  return [...builds, ...binBuilds];
 }
 
-// Build a package using rollup
-export async function buildPackage(pkgPath: string, config: Config): Promise<string[]> {
+/**
+ * Build a package using rollup
+ * @param pkgPath - Package directory path
+ * @param config - Package build configuration
+ * @param onWarning - Called with every warning, which is still printed as usual
+ */
+export async function buildPackage(
+  pkgPath: string,
+  config: Config,
+  onWarning?: (warning: RollupLog) => void,
+): Promise<PackageBuildResult> {
   const rollupConfigs = createRollupConfig(pkgPath, config);
+  const outDir = path.resolve(pkgPath, config.outDir);
+  const entryPoints = getEntryPoints(pkgPath, path.resolve(pkgPath, config.srcDir), config);
   const results: string[] = [];
+  const entryOutputs: EntryOutput[] = [];
 
-  for (const rollupConfig of rollupConfigs) {
-    const bundle = await rollup(rollupConfig);
-    const outputs = rollupConfig.output as OutputOptions[];
+  for (const { entry, platform, ...rollupConfig } of rollupConfigs) {
+    const input = rollupConfig.input as string;
+    // Each platform and each command keeps its own module cache
+    const cacheName = 'command' in entry ? `${input}.bin` : `${input}.${platform}`;
+    const moduleGraph = config.analyze ? new Map<string, ModuleImports>() : undefined;
+    const plugins = [...(rollupConfig.plugins as Plugin[]), ...(moduleGraph ? [moduleGraphPlugin(moduleGraph)] : [])];
+    // Cached modules skip resolveId, so strict dependency checks need a fresh build
+    const useCache = config.build.cache && config.build.strictDependencies.level === 'off';
+    const cacheKey = getRollupCacheKey(
+      plugins.map((plugin) => plugin.name),
+      pkgPath,
+      config,
+    );
+
+    // Reuse transformed modules from the previous build of this entry
+    const bundle = await rollup({
+      ...rollupConfig,
+      plugins,
+      cache: useCache ? loadRollupCache(pkgPath, cacheName, cacheKey, config) : false,
+      onwarn: (warning, defaultHandler) => {
+        onWarning?.(warning);
+        defaultHandler(warning);
+      },
+    });
+    // Close the bundle even when writing fails, so plugins release their resources
+    try {
+      if (useCache && bundle.cache) {
+        saveRollupCache(pkgPath, cacheName, cacheKey, bundle.cache, config);
+      }
+      const outputs = rollupConfig.output as OutputOptions[];
 
-    for (const output of outputs) {
-      const { output: files } = await bundle.write(output);
-      results.push(...files.map((f) => f.fileName));
+      for (const output of outputs) {
+        const { output: files } = await bundle.write(output);
+        // Commands may be written outside outDir
+        const dir = path.relative(outDir, output.dir!);
+        results.push(...files.map((f) => path.posix.join(dir.split(path.sep).join('/'), f.fileName)));
+        entryOutputs.push({
+          entry,
+          format: output.format as OutputFormat,
+          platform,
+          chunks: files.filter((file): file is OutputChunk => file.type === 'chunk'),
+          moduleGraph,
+        });
+      }
+    } finally {
+      await bundle.close();
     }
+  }
 
-    await bundle.close();
+  const { enabled, declaration, bundleDeclarations } = config.build.typescript;
+  if (enabled && declaration && bundleDeclarations) {
+    results.push(...(await buildDeclarations(pkgPath, entryPoints, config, onWarning)));
   }
 
-  return results;
+  return { files: results, outputs: entryOutputs };
 }
@@ -0,0 +1,175 @@
+/**
+ * Inverts a dependency graph
+ * @param graph - Map of package path to the paths of its dependencies
+ * @returns Map of package path to the paths of its direct dependents
+ */
+export function getDependents(graph: Map<string, string[]>): Map<string, string[]> {
+  const dependents = new Map<string, string[]>();
+  for (const [pkgPath, deps] of graph) {
+    for (const dep of deps) {
+      dependents.set(dep, [...(dependents.get(dep) || []), pkgPath]);
+    }
+  }
+  return dependents;
+}
+
+/**
+ * Computes the length of the longest chain of dependents starting at each package
+ * @param graph - Map of package path to the paths of its dependencies
+ * @returns Map of package path to critical path length, counting the package itself
+ */
+export function getCriticalPathLengths(graph: Map<string, string[]>): Map<string, number> {
+  const dependents = getDependents(graph);
+  const lengths = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  const visit = (pkgPath: string): number => {
+    if (lengths.has(pkgPath)) return lengths.get(pkgPath)!;
+    // Cycles are reported by the scheduler, just stop descending here
+    if (visiting.has(pkgPath)) return 0;
+    visiting.add(pkgPath);
+    const length = 1 + Math.max(0, ...(dependents.get(pkgPath) || []).map(visit));
+    visiting.delete(pkgPath);
+    lengths.set(pkgPath, length);
+    return length;
+  };
+
+  graph.forEach((_, pkgPath) => visit(pkgPath));
+  return lengths;
+}
+
+/**
+ * Finds a dependency cycle among pending packages. Every pending package waits on a pending dependency,
+ * so following those dependencies from any of them runs into a cycle.
+ * @param graph - Map of package path to the paths of its dependencies
+ * @param isPending - Whether a package has neither started nor been skipped
+ * @returns Package paths on the cycle, starting and ending with the same package
+ */
+function findCycle(graph: Map<string, string[]>, isPending: (pkgPath: string) => boolean): string[] {
+  const chain: string[] = [];
+  let pkgPath = [...graph.keys()].find(isPending);
+  while (pkgPath && !chain.includes(pkgPath)) {
+    chain.push(pkgPath);
+    pkgPath = graph.get(pkgPath)!.find(isPending);
+  }
+  return pkgPath ? [...chain.slice(chain.indexOf(pkgPath)), pkgPath] : chain;
+}
+
+export interface ScheduleOptions {
+  // Maximum number of tasks running at once
+  concurrency: number;
+  // Stop starting new tasks after the first failure
+  bail?: boolean;
+  // Called for packages that will not run, with the failed upstream package, or undefined after a bail
+  onSkip?: (pkgPath: string, cause?: string) => void;
+}
+
+/**
+ * Runs a task for every package once all of its dependencies have succeeded.
+ * Ready packages are started on the longest critical path first, up to the concurrency limit.
+ * Dependents of a failed package are skipped; with `bail`, every package not yet started is skipped.
+ * @param graph - Map of package path to the paths of its dependencies
+ * @param task - Task to run for a package, resolving to whether it succeeded
+ * @param options - Scheduling options
+ */
+export function runScheduled(
+  graph: Map<string, string[]>,
+  task: (pkgPath: string) => Promise<boolean>,
+  options: ScheduleOptions,
+): Promise<void> {
+  const priorities = getCriticalPathLengths(graph);
+  const dependents = getDependents(graph);
+  const remainingDeps = new Map<string, number>();
+  const started = new Set<string>();
+  const skipped = new Set<string>();
+  const ready: string[] = [];
+
+  for (const [pkgPath, deps] of graph) {
+    remainingDeps.set(pkgPath, deps.length);
+    if (deps.length === 0) {
+      ready.push(pkgPath);
+    }
+  }
+
+  let running = 0;
+  let completed = 0;
+  let aborted = false;
+
+  const skip = (pkgPath: string, cause?: string) => {
+    if (skipped.has(pkgPath)) return;
+    skipped.add(pkgPath);
+    completed++;
+    options.onSkip?.(pkgPath, cause);
+  };
+
+  // Skip everything downstream of a failed package
+  const skipDependents = (failedPath: string) => {
+    const stack = [...(dependents.get(failedPath) || [])];
+    while (stack.length > 0) {
+      const pkgPath = stack.pop()!;
+      if (skipped.has(pkgPath)) continue;
+      skip(pkgPath, failedPath);
+      stack.push(...(dependents.get(pkgPath) || []));
+    }
+  };
+
+  return new Promise((resolve, reject) => {
+    const startNext = () => {
+      // Stable sort keeps the incoming order for packages with equal priority
+      ready.sort((a, b) => priorities.get(b)! - priorities.get(a)!);
+
+      while (!aborted && running < Math.max(1, options.concurrency) && ready.length > 0) {
+        const pkgPath = ready.shift()!;
+        running++;
+
+        const done = (success: boolean) => {
+          running--;
+          completed++;
+
+          if (!success) {
+            skipDependents(pkgPath);
+            if (options.bail) {
+              // Everything that has not started yet is skipped
+              aborted = true;
+              ready.length = 0;
+              graph.forEach((_, other) => {
+                if (!started.has(other)) skip(other);
+              });
+            }
+          }
+
+          for (const dependent of dependents.get(pkgPath) || []) {
+            const count = remainingDeps.get(dependent)! - 1;
+            remainingDeps.set(dependent, count);
+            if (count === 0 && !skipped.has(dependent)) {
+              ready.push(dependent);
+            }
+          }
+
+          if (completed === graph.size) {
+            resolve();
+          } else {
+            startNext();
+          }
+        };
+
+        started.add(pkgPath);
+        Promise.resolve()
+          .then(() => task(pkgPath))
+          .then(done, () => done(false));
+      }
+
+      // Nothing running and nothing ready means the rest waits on a cycle
+      if (running === 0 && ready.length === 0 && completed < graph.size) {
+        const cycle = findCycle(graph, (pkgPath) => !started.has(pkgPath) && !skipped.has(pkgPath));
+        reject(new Error(`Circular dependency detected in packages: ${cycle.join(' -> ')}`));
+      }
+    };
+
+    if (graph.size === 0) {
+      resolve();
+    } else {
+      startNext();
+    }
+  });
+}
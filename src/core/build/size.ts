@@ -0,0 +1,179 @@
+import { OutputChunk } from 'rollup';
+import { brotliCompressSync, gzipSync } from 'zlib';
+import { Config, OutputFormat, Platform, SizeLimit } from '../utils/config.js';
+import { EntryOutput } from './rollup.js';
+
+export interface SizeEntry {
+  // Export subpath of the entry, e.g. `.` or `./utils`
+  subpath: string;
+  // Output name of the entry, without extension
+  name: string;
+  format: OutputFormat;
+  platform: Platform;
+  // File name of the entry chunk
+  file: string;
+  raw: number;
+  gzip: number;
+  brotli: number;
+}
+
+const UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1000,
+  mb: 1000 ** 2,
+  kib: 1024,
+  mib: 1024 ** 2,
+};
+
+/**
+ * Parses a size budget such as `10 kB`, `1.5MiB` or a plain number of bytes
+ * @param limit - Size budget
+ * @returns Size in bytes
+ */
+export function parseSize(limit: SizeLimit): number {
+  if (typeof limit === 'number') return limit;
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([a-z]*)\s*$/i.exec(limit);
+  const unit = match && (match[2] ? UNITS[match[2].toLowerCase()] : 1);
+  if (!match || !unit) {
+    throw new Error(`Invalid size limit: ${limit} (expected bytes or a value such as 10 kB)`);
+  }
+  return Math.round(parseFloat(match[1]) * unit);
+}
+
+/**
+ * Formats a size in bytes for display
+ * @param bytes - Size in bytes
+ */
+export function formatSize(bytes: number): string {
+  const abs = Math.abs(bytes);
+  if (abs < 1000) return `${bytes} B`;
+  if (abs < 1000 ** 2) return `${(bytes / 1000).toFixed(2)} kB`;
+  return `${(bytes / 1000 ** 2).toFixed(2)} MB`;
+}
+
+/**
+ * Gets the size of an entry that budgets and deltas are measured by
+ * @param size - Entry size
+ * @param config - Build configuration
+ */
+function getMeasuredSize(size: SizeEntry, config: Config): number {
+  const { sizeCompression } = config.build;
+  return sizeCompression === 'none' ? size.raw : size[sizeCompression];
+}
+
+/**
+ * Collects an entry chunk and every chunk it statically imports
+ * @param output - Entry output
+ * @returns Chunks loaded together with the entry, entry chunk first
+ */
+function collectEntryChunks(output: EntryOutput): OutputChunk[] {
+  const byFileName = new Map(output.chunks.map((chunk) => [chunk.fileName, chunk]));
+  const entryChunk =
+    output.chunks.find((chunk) => chunk.isEntry && chunk.facadeModuleId === output.entry.input) ||
+    output.chunks.find((chunk) => chunk.isEntry);
+  if (!entryChunk) return [];
+
+  const collected = new Set<OutputChunk>();
+  const stack = [entryChunk];
+  while (stack.length > 0) {
+    const chunk = stack.pop()!;
+    if (collected.has(chunk)) continue;
+    collected.add(chunk);
+    // Externals are not part of the output
+    chunk.imports.forEach((fileName) => byFileName.has(fileName) && stack.push(byFileName.get(fileName)!));
+  }
+  return [...collected];
+}
+
+/**
+ * Measures the raw, gzip and brotli size of every entry, including the modules it imports
+ * @param outputs - Outputs of the package build
+ */
+export function measureEntrySizes(outputs: EntryOutput[]): SizeEntry[] {
+  return outputs.flatMap((output) => {
+    const chunks = collectEntryChunks(output);
+    if (chunks.length === 0) return [];
+
+    const size: SizeEntry = {
+      subpath: output.entry.subpath,
+      name: output.entry.name,
+      format: output.format,
+      platform: output.platform,
+      file: chunks[0].fileName,
+      raw: 0,
+      gzip: 0,
+      brotli: 0,
+    };
+    // Files are fetched separately, so each one is compressed on its own
+    for (const chunk of chunks) {
+      const code = Buffer.from(chunk.code);
+      size.raw += code.length;
+      size.gzip += gzipSync(code, { level: 9 }).length;
+      size.brotli += brotliCompressSync(code).length;
+    }
+    return [size];
+  });
+}
+
+/**
+ * Checks entry sizes against the configured budgets
+ * @param sizes - Entry sizes
+ * @param config - Package build configuration
+ * @returns One message per entry over its budget
+ */
+export function checkSizeLimits(sizes: SizeEntry[], config: Config): string[] {
+  const { sizeLimit, sizeCompression } = config.build;
+  if (sizeLimit === undefined) return [];
+
+  const messages: string[] = [];
+  for (const size of sizes) {
+    const limit =
+      typeof sizeLimit === 'object' ? (sizeLimit[size.subpath] ?? sizeLimit[size.name]) : (sizeLimit as SizeLimit);
+    if (limit === undefined) continue;
+
+    const bytes = parseSize(limit);
+    const measured = getMeasuredSize(size, config);
+    if (measured > bytes) {
+      const kind = sizeCompression === 'none' ? '' : ` ${sizeCompression}`;
+      messages.push(
+        `${size.file} (${size.subpath}, ${size.format}) is ${formatSize(measured)}${kind}, over the ${formatSize(bytes)} limit`,
+      );
+    }
+  }
+  return messages;
+}
+
+/**
+ * Formats a size report, with the change from the previous build
+ * @param sizes - Entry sizes
+ * @param previous - Entry sizes of the previous build, if any
+ * @param config - Package build configuration
+ * @returns Report lines
+ */
+export function formatSizeReport(sizes: SizeEntry[], previous: SizeEntry[] | undefined, config: Config): string[] {
+  const rows = sizes.map((size) => {
+    const before = previous?.find((other) => other.file === size.file);
+    const delta = before ? getMeasuredSize(size, config) - getMeasuredSize(before, config) : undefined;
+    return [
+      size.format,
+      size.file,
+      formatSize(size.raw),
+      formatSize(size.gzip),
+      formatSize(size.brotli),
+      !previous ? '' : delta === undefined ? 'new' : delta === 0 ? '' : `${delta > 0 ? '+' : ''}${formatSize(delta)}`,
+    ];
+  });
+
+  // Align columns, with sizes right-aligned
+  const widths = rows.reduce<number[]>(
+    (acc, row) => row.map((cell, index) => Math.max(acc[index] || 0, cell.length)),
+    [],
+  );
+  const pad = (row: string[], index: number) =>
+    index >= 2 && index <= 4 ? row[index].padStart(widths[index]) : row[index].padEnd(widths[index]);
+  return rows.map((row) =>
+    [pad(row, 0), pad(row, 1), pad(row, 2), `gzip ${pad(row, 3)}`, `brotli ${pad(row, 4)}`, row[5]]
+      .join('  ')
+      .trimEnd(),
+  );
+}
@@ -0,0 +1,66 @@
+import path from 'path';
+import { parentPort, workerData } from 'worker_threads';
+import ts, { Diagnostic } from 'typescript';
+import type { BuildMessage } from './report.js';
+import type { TypeCheckResult } from './tsc.js';
+
+export interface TypeCheckTask {
+  // Project to build, with the projects it references
+  configPath: string;
+  // Declarations written here are reported as output files
+  outDir: string;
+  force: boolean;
+  rootDir: string;
+}
+
+/**
+ * Converts a TypeScript diagnostic into a report message
+ * @param diagnostic - Diagnostic to convert
+ */
+function toTypeMessage(diagnostic: Diagnostic): BuildMessage {
+  const message: BuildMessage = {
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+    code: `TS${diagnostic.code}`,
+  };
+  if (diagnostic.file && diagnostic.start !== undefined) {
+    const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+    message.file = diagnostic.file.fileName;
+    message.line = line + 1;
+    message.column = character + 1;
+  }
+  return message;
+}
+
+/**
+ * Runs `tsc --build` on a project. The solution builder is synchronous, so it runs in a worker thread
+ * to keep type checks of other packages and esbuild builds going.
+ * @param task - Project to build
+ */
+function runTypeCheck({ configPath, outDir, force, rootDir }: TypeCheckTask): TypeCheckResult {
+  const diagnostics: Diagnostic[] = [];
+  const files: string[] = [];
+
+  // Record the declarations written to outDir
+  const system = {
+    ...ts.sys,
+    writeFile: (file: string, data: string, writeByteOrderMark?: boolean) => {
+      const relative = path.relative(outDir, file);
+      if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+        files.push(relative.split(path.sep).join('/'));
+      }
+      ts.sys.writeFile(file, data, writeByteOrderMark);
+    },
+  };
+  const host = ts.createSolutionBuilderHost(system, undefined, (diagnostic) => diagnostics.push(diagnostic));
+  ts.createSolutionBuilder(host, [configPath], { force }).build();
+
+  const errors = diagnostics.filter((diagnostic) => diagnostic.category === ts.DiagnosticCategory.Error);
+  const output = ts.formatDiagnostics(errors, {
+    getCanonicalFileName: (fileName) => fileName,
+    getCurrentDirectory: () => rootDir,
+    getNewLine: () => '\n',
+  });
+  return { files, errors: errors.map(toTypeMessage), output };
+}
+
+parentPort?.postMessage(runTypeCheck(workerData as TypeCheckTask));
@@ -0,0 +1,194 @@
+import fs from 'fs';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { Config, getPackageConfig } from '../utils/config.js';
+import { getPackageInfo, getWorkspacePackages } from '../utils/package.js';
+import { toCacheFileName } from './cache.js';
+import { BuildMessage } from './report.js';
+import type { TypeCheckTask } from './tsc-worker.js';
+
+export interface TypeCheckResult {
+  // Declaration files written to outDir, relative to it
+  files: string[];
+  errors: BuildMessage[];
+  // Diagnostics formatted like tsc prints them
+  output: string;
+}
+
+/**
+ * Loads the TypeScript compiler, a peer dependency of monoup
+ * @returns TypeScript module
+ */
+export async function loadTypeScript(): Promise<typeof import('typescript')> {
+  try {
+    const { default: ts } = await import('typescript');
+    return ts;
+  } catch (error: any) {
+    throw new Error(`Cannot load TypeScript, which monoup needs as a peer dependency: ${error.message}`);
+  }
+}
+
+/**
+ * Gets the directory of the files tsc keeps for a package in the cache dir
+ * @param pkgPath - Package directory path
+ * @param config - Package build configuration
+ */
+function getProjectDir(pkgPath: string, config: Config): string {
+  return path.resolve(config.build.cacheDir, 'monoup', 'tsc', toCacheFileName(getPackageInfo(pkgPath).name));
+}
+
+/**
+ * Lists the workspace packages a package depends on
+ * @param pkgPath - Package directory path
+ * @param config - Configuration
+ */
+function getWorkspaceDependencies(pkgPath: string, config: Config): string[] {
+  if (!config.monorepo) return [];
+  const names = new Map(getWorkspacePackages(config).map((dir) => [getPackageInfo(dir).name, dir]));
+  const pkg = getPackageInfo(pkgPath);
+  const dependencies = new Set([...Object.keys(pkg.dependencies || {}), ...Object.keys(pkg.peerDependencies || {})]);
+  return [...dependencies]
+    .filter((name) => names.has(name) && names.get(name) !== pkgPath)
+    .map((name) => names.get(name)!);
+}
+
+/**
+ * Writes the tsc project of a package, extending its own tsconfig.json or the root one. Only declarations are
+ * emitted, as esbuild emits the JavaScript; they go to outDir unless they are bundled or turned off.
+ * The projects of workspace dependencies are referenced, so tsc builds them first when they are out of date.
+ * @param pkgPath - Package directory path
+ * @param config - Package build configuration
+ * @param references - Paths of the referenced projects' tsconfig.json files
+ * @returns Path of the written tsconfig.json
+ */
+function writeProjectConfig(pkgPath: string, config: Config, references: string[]): string {
+  const projectDir = getProjectDir(pkgPath, config);
+  const srcDir = path.resolve(pkgPath, config.srcDir);
+  const { declaration, bundleDeclarations, removeComments, paths } = config.build.typescript;
+  const emitToOutDir = declaration && !bundleDeclarations;
+  const declarationDir = emitToOutDir ? path.resolve(pkgPath, config.outDir) : path.join(projectDir, 'types');
+  const packageTsconfig = path.join(pkgPath, 'tsconfig.json');
+
+  const project = {
+    extends: fs.existsSync(packageTsconfig) ? packageTsconfig : path.resolve(config.rootDir, 'tsconfig.json'),
+    compilerOptions: {
+      composite: true,
+      declaration: true,
+      emitDeclarationOnly: true,
+      declarationMap: emitToOutDir && config.sourcemap,
+      noEmit: false,
+      removeComments,
+      ...(paths && { paths }),
+      rootDir: srcDir,
+      outDir: declarationDir,
+      declarationDir,
+      tsBuildInfoFile: path.join(projectDir, 'tsconfig.tsbuildinfo'),
+    },
+    include: [srcDir],
+    exclude: ['node_modules', '**/*.test.ts'],
+    references: references.map((reference) => ({ path: reference })),
+  };
+
+  const configPath = path.join(projectDir, 'tsconfig.json');
+  fs.mkdirSync(projectDir, { recursive: true });
+  fs.writeFileSync(configPath, JSON.stringify(project, null, 2));
+  return configPath;
+}
+
+/**
+ * Gets the tsc project of a package: its own tsconfig.json when it is a composite project, as written by
+ * `monoup sync-tsconfig`, so that referenced packages share its incremental state, and a generated one otherwise
+ * @param ts - TypeScript module
+ * @param pkgPath - Package directory path
+ * @param config - Root configuration, which package configurations are resolved against
+ * @param projects - Projects found so far by package path, which also stops dependency cycles
+ * @returns Path of the project's tsconfig.json
+ */
+async function getProjectConfig(
+  ts: typeof import('typescript'),
+  pkgPath: string,
+  config: Config,
+  projects: Map<string, string>,
+): Promise<string> {
+  const found = projects.get(pkgPath);
+  if (found) return found;
+
+  const packageTsconfig = path.join(pkgPath, 'tsconfig.json');
+  if (fs.existsSync(packageTsconfig)) {
+    const { config: tsconfig } = ts.readConfigFile(packageTsconfig, ts.sys.readFile);
+    if (tsconfig?.compilerOptions?.composite) {
+      projects.set(pkgPath, packageTsconfig);
+      return packageTsconfig;
+    }
+  }
+
+  const pkgConfig = await getPackageConfig(pkgPath, config);
+  projects.set(pkgPath, path.join(getProjectDir(pkgPath, pkgConfig), 'tsconfig.json'));
+  const references: string[] = [];
+  for (const dependency of getWorkspaceDependencies(pkgPath, config)) {
+    references.push(await getProjectConfig(ts, dependency, config, projects));
+  }
+  return writeProjectConfig(pkgPath, pkgConfig, references);
+}
+
+// tsc builds by project, so that a project referenced by several packages is built by one worker only
+const projectBuilds = new Map<string, Promise<TypeCheckResult>>();
+
+/**
+ * Runs `tsc --build` in a worker thread
+ * @param task - Project to build
+ */
+function runWorker(task: TypeCheckTask): Promise<TypeCheckResult> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./tsc-worker.js', import.meta.url), { workerData: task });
+    worker.once('message', resolve);
+    worker.once('error', reject);
+    worker.once('exit', (code) => {
+      if (code !== 0) reject(new Error(`Type check worker exited with code ${code}`));
+    });
+  });
+}
+
+/**
+ * Type checks a package and emits its declarations with `tsc --build`, which keeps incremental state in
+ * a .tsbuildinfo file so that unchanged packages are not checked again. The build runs in a worker thread.
+ * @param pkgPath - Package directory path
+ * @param config - Root configuration
+ */
+export async function checkTypes(pkgPath: string, config: Config): Promise<TypeCheckResult> {
+  const ts = await loadTypeScript();
+  const pkgConfig = await getPackageConfig(pkgPath, config);
+  const outDir = path.resolve(pkgPath, pkgConfig.outDir);
+  const { declaration, bundleDeclarations } = pkgConfig.build.typescript;
+  const projects = new Map<string, string>();
+  const task: TypeCheckTask = {
+    configPath: await getProjectConfig(ts, pkgPath, config, projects),
+    outDir,
+    // The build info lives in the cache dir, so a removed outDir would otherwise look up to date
+    force: declaration && !bundleDeclarations && !fs.existsSync(outDir),
+    rootDir: config.rootDir,
+  };
+
+  // Build the referenced projects first, dependencies before dependents. Packages sharing a project that is not
+  // built on its own, such as one left out by --filter, wait for the same build instead of writing its outDir
+  // and build info at the same time. The package's own build then finds them up to date.
+  for (const [depPath, depConfigPath] of [...projects].reverse()) {
+    if (depPath === pkgPath) continue;
+    if (!projectBuilds.has(depConfigPath)) {
+      const depBuild = getPackageConfig(depPath, config).then((depConfig) =>
+        runWorker({
+          configPath: depConfigPath,
+          outDir: path.resolve(depPath, depConfig.outDir),
+          force: false,
+          rootDir: config.rootDir,
+        }),
+      );
+      projectBuilds.set(depConfigPath, depBuild);
+    }
+    await projectBuilds.get(depConfigPath);
+  }
+
+  const build = runWorker(task);
+  projectBuilds.set(task.configPath, build);
+  return build;
+}
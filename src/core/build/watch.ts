@@ -0,0 +1,173 @@
+import fs from 'fs';
+import path from 'path';
+import { build, flushMessages, getDependencyGraph, markSkipped } from './builder.js';
+import { computePackageHashes, getCachedPackages, hashPackage } from './cache.js';
+import { getDependents } from './scheduler.js';
+import { Config, getPackageConfig } from '../utils/config.js';
+import { log, resetDisplay, updatePackageDisplayStatus } from '../utils/display.js';
+import { getPackageInfo } from '../utils/package.js';
+
+// Delay before a batch of file changes triggers a rebuild
+const DEBOUNCE_DELAY = 100;
+
+/**
+ * Sorts packages so that every package comes after its workspace dependencies
+ * @param graph - Map of package path to the paths of its dependencies
+ * @returns Package paths in topological order
+ */
+function topologicalOrder(graph: Map<string, string[]>): string[] {
+  const order: string[] = [];
+  const visited = new Set<string>();
+
+  const visit = (pkgPath: string) => {
+    if (visited.has(pkgPath)) return;
+    visited.add(pkgPath);
+    (graph.get(pkgPath) || []).forEach(visit);
+    order.push(pkgPath);
+  };
+
+  graph.forEach((_, pkgPath) => visit(pkgPath));
+  return order;
+}
+
+/**
+ * Collects the given packages and every package that depends on them
+ * @param changed - Paths of the changed packages
+ * @param dependents - Map of package path to the paths of its direct dependents
+ * @returns Paths of all affected packages
+ */
+function collectAffected(changed: Iterable<string>, dependents: Map<string, string[]>): Set<string> {
+  const affected = new Set<string>();
+  const stack = [...changed];
+
+  while (stack.length > 0) {
+    const pkgPath = stack.pop()!;
+    if (affected.has(pkgPath)) continue;
+    affected.add(pkgPath);
+    stack.push(...(dependents.get(pkgPath) || []));
+  }
+
+  return affected;
+}
+
+/**
+ * Watch package sources and rebuild changed packages and their dependents
+ * @param packages - Package directory paths of the workspace
+ * @param config - Build configuration
+ * @param targets - Packages to watch, as passed to buildAll
+ */
+export async function watchPackages(packages: string[], config: Config, targets: string[]): Promise<void> {
+  const graph = getDependencyGraph(targets, config);
+  const order = topologicalOrder(graph);
+  // Packages that are not watched do not change, but their hashes are part of their dependents' hashes
+  const workspaceGraph = getDependencyGraph(packages, config);
+  const hashes = await computePackageHashes(workspaceGraph, config, await getCachedPackages(targets, config));
+
+  const dependents = getDependents(graph);
+
+  const changed = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+  let building = false;
+
+  // Rebuild the changed packages and their dependents in dependency order, until no changes are pending
+  const rebuildChanged = async () => {
+    while (changed.size > 0) {
+      const affected = collectAffected(changed, dependents);
+      changed.clear();
+      const queue = order.filter((pkgPath) => affected.has(pkgPath));
+      const failed = new Set<string>();
+
+      if (config.process) {
+        resetDisplay();
+        queue.forEach((pkgPath) => updatePackageDisplayStatus(getPackageInfo(pkgPath).name, 'pending', 'Queued...'));
+      } else {
+        log(`Rebuilding ${queue.map((pkgPath) => getPackageInfo(pkgPath).name).join(', ')}`);
+      }
+
+      const startTime = Date.now();
+      for (const pkgPath of queue) {
+        // Skip packages whose dependencies failed to rebuild
+        const failedDep = (graph.get(pkgPath) || []).find((dep) => failed.has(dep));
+        if (failedDep) {
+          failed.add(pkgPath);
+          markSkipped(pkgPath, config, failedDep);
+          continue;
+        }
+
+        try {
+          // Dependencies come first in the queue, so their hashes are already fresh. Packages are hashed
+          // when they or a dependent use the cache.
+          if (hashes.has(pkgPath)) {
+            const depHashes = (workspaceGraph.get(pkgPath) || []).map((dep) => hashes.get(dep)!);
+            hashes.set(pkgPath, hashPackage(pkgPath, await getPackageConfig(pkgPath, config), depHashes));
+          }
+
+          if ((await build(pkgPath, config, hashes.get(pkgPath))) === 'failed') {
+            failed.add(pkgPath);
+          }
+        } catch (error: any) {
+          // Files can disappear while they are hashed, such as the temporary files of editors
+          const pkgName = getPackageInfo(pkgPath).name;
+          failed.add(pkgPath);
+          if (config.process) {
+            updatePackageDisplayStatus(pkgName, 'error', 'Failed');
+          }
+          log(`[${pkgName}] ${error.message}`, 'error');
+        }
+      }
+
+      if (config.process) {
+        flushMessages();
+      } else {
+        const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+        if (failed.size > 0) {
+          log(`Rebuild failed after ${duration}s`, 'error');
+        } else {
+          log(`Rebuilt ${queue.length} packages in ${duration}s`, 'success');
+        }
+        log('Watching for changes...');
+      }
+    }
+  };
+
+  // Rebuild once changes settle, without letting an error stop the watcher
+  const rebuild = async () => {
+    timer = null;
+    if (building) return;
+    building = true;
+
+    try {
+      await rebuildChanged();
+    } catch (error: any) {
+      // Keep watching; the next change starts a new rebuild
+      log(`Rebuild failed: ${error.message}`, 'error');
+      changed.clear();
+    } finally {
+      building = false;
+    }
+  };
+
+  // Queue a package for rebuilding once changes settle
+  const schedule = (pkgPath: string) => {
+    changed.add(pkgPath);
+    if (building) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(rebuild, DEBOUNCE_DELAY);
+  };
+
+  const watchers: fs.FSWatcher[] = [];
+  for (const pkgPath of targets) {
+    const srcDir = path.resolve(pkgPath, (await getPackageConfig(pkgPath, config)).srcDir);
+    if (!fs.existsSync(srcDir)) continue;
+    watchers.push(fs.watch(srcDir, { recursive: true }, () => schedule(pkgPath)));
+  }
+
+  process.on('SIGINT', () => {
+    watchers.forEach((watcher) => watcher.close());
+    process.exit(0);
+  });
+
+  if (!config.process) {
+    log('Watching for changes...');
+  }
+}
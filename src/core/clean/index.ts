@@ -1,8 +1,9 @@
 import fs from 'fs';
 import path from 'path';
-import { getConfig, Config } from '../utils/config.js';
+import { getConfig, getPackageConfig, Config } from '../utils/config.js';
 import { log } from '../utils/display.js';
-import { getPackageInfo } from '../utils/package.js';
+import { selectPackages } from '../utils/filter.js';
+import { getPackageInfo, getWorkspacePackages } from '../utils/package.js';
 
 export async function clean(options: Partial<Config> = {}): Promise<void> {
   log('Starting clean...', 'info');
@@ -10,33 +11,12 @@ export async function clean(options: Partial<Config> = {}): Promise<void> {
   // Retrieve configuration
   const config = await getConfig(options);
   const rootDir = config.rootDir;
-  const baseOutDir = config.outDir;
 
-  const namePattern = new RegExp(`^@${config.name}\\/`);
   // Get all package directories
-  const packages = [
-    rootDir,
-    ...(config.monorepo
-      ? fs
-          .readdirSync(path.resolve(rootDir, config.packagesDir))
-          .map((dir) => path.resolve(rootDir, config.packagesDir, dir))
-          .filter((dir) => fs.statSync(dir).isDirectory())
-      : []),
-  ];
+  const packages = [rootDir, ...(config.monorepo ? getWorkspacePackages(config) : [])];
 
-  // Filter packages if specific package is specified
-  const targetPackages = config.package
-    ? packages.filter((pkg) => {
-        const pkgInfo = getPackageInfo(pkg);
-        const pkgName = pkgInfo.name.replace(namePattern, '');
-        return pkgName === config.package;
-      })
-    : packages;
-
-  if (config.package && targetPackages.length === 0) {
-    log(`Package '${config.package}' not found`, 'error');
-    process.exit(1);
-  }
+  // Filter packages by --package, --filter and --since
+  const targetPackages = selectPackages(packages, config);
 
   // Track cleaned directories
   let cleanedCount = 0;
@@ -45,7 +25,7 @@ export async function clean(options: Partial<Config> = {}): Promise<void> {
   // Clean output directories for each package
   for (const packageDir of targetPackages) {
     const pkgInfo = getPackageInfo(packageDir);
-    const outDir = path.resolve(packageDir, baseOutDir);
+    const outDir = path.resolve(packageDir, (await getPackageConfig(packageDir, config)).outDir);
     const relativeOutDir = path.relative(rootDir, outDir);
 
     if (fs.existsSync(outDir)) {
@@ -3,3 +3,5 @@ export { build } from './build/index.js';
 export { clean } from './clean/index.js';
 export { version } from './version/index.js';
 export { publish } from './publish/index.js';
+export { syncTsconfig } from './tsconfig/index.js';
+export { lint } from './lint/index.js';
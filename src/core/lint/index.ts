@@ -0,0 +1,271 @@
+import fs from 'fs';
+import path from 'path';
+import { globSync } from 'glob';
+import { Config, getConfig, getPackageConfig } from '../utils/config.js';
+import { log } from '../utils/display.js';
+import { selectPackages } from '../utils/filter.js';
+import { getPackageInfo, getWorkspacePackages, PackageJson, sortPackagesByDependencies } from '../utils/package.js';
+import { getDeclarationExtensions } from '../build/dts.js';
+import { getEntryPoints } from '../build/entries.js';
+
+type Severity = 'error' | 'warn';
+type ModuleFormat = 'esm' | 'cjs';
+
+interface LintIssue {
+  rule: string;
+  severity: Severity;
+  message: string;
+}
+
+// A path referenced from package.json, with the module format Node loads it as
+interface ManifestTarget {
+  field: string;
+  target: string;
+  format?: ModuleFormat;
+}
+
+/**
+ * Normalizes a package path such as `./lib/index.mjs` to `lib/index.mjs`
+ * @param target - Path from package.json
+ */
+function normalizeTarget(target: string): string {
+  return path.posix.normalize(target.replace(/\\/g, '/')).replace(/^\.\//, '').replace(/\/$/, '');
+}
+
+/**
+ * Resolves a path from package.json to the files it refers to
+ * @param pkgPath - Package directory path
+ * @param target - Path, where `*` matches any part of a file path as in exports
+ * @returns Existing files relative to the package
+ */
+function resolveTarget(pkgPath: string, target: string): string[] {
+  const file = normalizeTarget(target);
+  if (!file.includes('*')) return fs.existsSync(path.resolve(pkgPath, file)) ? [file] : [];
+  return globSync(file.replace(/\*/g, '**/*'), { cwd: pkgPath, nodir: true }).map(normalizeTarget);
+}
+
+/**
+ * Collects the file paths referenced by main, module, types, exports and bin
+ * @param pkg - Package information
+ */
+function collectTargets(pkg: PackageJson): ManifestTarget[] {
+  const targets: ManifestTarget[] = [];
+  if (typeof pkg.main === 'string') targets.push({ field: 'main', target: pkg.main });
+  if (typeof pkg.module === 'string') targets.push({ field: 'module', target: pkg.module, format: 'esm' });
+  if (typeof pkg.types === 'string') targets.push({ field: 'types', target: pkg.types });
+
+  // Conditions pass their format on to nested conditions
+  const walk = (value: any, field: string, format?: ModuleFormat) => {
+    if (typeof value === 'string') {
+      targets.push({ field, target: value, format });
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => walk(item, `${field}[${index}]`, format));
+    } else if (value && typeof value === 'object') {
+      Object.entries(value).forEach(([key, child]) => {
+        const childFormat = key === 'import' ? 'esm' : key === 'require' ? 'cjs' : format;
+        walk(child, `${field}[${JSON.stringify(key)}]`, childFormat);
+      });
+    }
+  };
+  walk(pkg.exports, 'exports');
+
+  if (typeof pkg.bin === 'string') {
+    targets.push({ field: 'bin', target: pkg.bin });
+  } else if (pkg.bin && typeof pkg.bin === 'object') {
+    Object.entries<string>(pkg.bin).forEach(([command, target]) =>
+      targets.push({ field: `bin[${JSON.stringify(command)}]`, target }),
+    );
+  }
+  return targets;
+}
+
+/**
+ * Gets the module format Node loads a JavaScript file as
+ * @param pkg - Package information
+ * @param file - File path
+ * @returns Module format, or undefined for files that are not JavaScript
+ */
+function getFileFormat(pkg: PackageJson, file: string): ModuleFormat | undefined {
+  if (file.endsWith('.mjs')) return 'esm';
+  if (file.endsWith('.cjs')) return 'cjs';
+  if (file.endsWith('.js')) return pkg.type === 'module' ? 'esm' : 'cjs';
+  return undefined;
+}
+
+/**
+ * Checks that every referenced path exists and that JavaScript files are loaded in the format of their condition
+ * @param pkgPath - Package directory path
+ * @param pkg - Package information
+ * @param targets - Referenced paths
+ */
+function lintTargets(pkgPath: string, pkg: PackageJson, targets: ManifestTarget[]): LintIssue[] {
+  const issues: LintIssue[] = [];
+  for (const { field, target, format } of targets) {
+    // Wildcard exports have to match at least one file
+    if (resolveTarget(pkgPath, target).length === 0) {
+      issues.push({ rule: 'missing-file', severity: 'error', message: `${field} points to missing ${target}` });
+      continue;
+    }
+
+    const fileFormat = getFileFormat(pkg, target);
+    if (format && fileFormat && format !== fileFormat) {
+      const reason = target.endsWith('.js')
+        ? `.js files are ${fileFormat === 'esm' ? 'ES modules with' : 'CommonJS without'} "type": "module"`
+        : `${path.extname(target)} files are always ${fileFormat === 'esm' ? 'ES modules' : 'CommonJS'}`;
+      issues.push({
+        rule: 'module-format',
+        severity: 'error',
+        message: `${field} expects ${format === 'esm' ? 'an ES module' : 'CommonJS'} but ${target} is not: ${reason}`,
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Checks that the types condition comes first wherever it is used, as TypeScript takes the first matching condition
+ * @param exports - Exports field
+ */
+function lintTypesOrder(exports: any): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const walk = (value: any, field: string) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return;
+    const keys = Object.keys(value);
+    if (keys.includes('types') && keys[0] !== 'types') {
+      issues.push({ rule: 'types-first', severity: 'error', message: `${field} lists "types" after "${keys[0]}"` });
+    }
+    keys.forEach((key) => walk(value[key], `${field}[${JSON.stringify(key)}]`));
+  };
+  walk(exports, 'exports');
+  return issues;
+}
+
+/**
+ * Checks that the files field includes every output, so that npm publishes them
+ * @param pkgPath - Package directory path
+ * @param pkg - Package information
+ * @param outputs - Referenced paths and declaration files, relative to the package
+ */
+function lintFiles(pkgPath: string, pkg: PackageJson, outputs: { field: string; target: string }[]): LintIssue[] {
+  if (!Array.isArray(pkg.files)) {
+    return [{ rule: 'files-coverage', severity: 'warn', message: 'no files field, so the whole package is published' }];
+  }
+
+  // Entries are files, directories with all their contents, or globs
+  const included = new Set(globSync(pkg.files.map(normalizeTarget), { cwd: pkgPath, dot: true }).map(normalizeTarget));
+  const isIncluded = (file: string) => {
+    const parts = file.split('/');
+    return parts.some((_, index) => included.has(parts.slice(0, index + 1).join('/')));
+  };
+
+  const issues: LintIssue[] = [];
+  const reported = new Set<string>();
+  for (const { field, target } of outputs) {
+    // package.json is always published
+    const missing = resolveTarget(pkgPath, target).filter((file) => file !== 'package.json' && !isIncluded(file));
+    if (missing.length === 0 || missing.every((file) => reported.has(file))) continue;
+    missing.forEach((file) => reported.add(file));
+    issues.push({
+      rule: 'files-coverage',
+      severity: 'error',
+      message: `files does not include ${target} from ${field}`,
+    });
+  }
+  return issues;
+}
+
+/**
+ * Lists the declaration files expected for the entry points of a package
+ * @param pkgPath - Package directory path
+ * @param config - Package build configuration
+ * @returns Declaration files relative to the package, with the entry they belong to
+ */
+function getDeclarationFiles(pkgPath: string, config: Config): { field: string; target: string }[] {
+  const { enabled, declaration, bundleDeclarations } = config.build.typescript;
+  if (!enabled || !declaration) return [];
+  const srcDir = path.resolve(pkgPath, config.srcDir);
+  const outDir = path.relative(pkgPath, path.resolve(pkgPath, config.outDir)).split(path.sep).join('/');
+  // Bundled declarations come in one flavor per module format, others follow the source extension
+  const extensions = (input: string) => {
+    if (bundleDeclarations) return getDeclarationExtensions(config);
+    const extension = path.extname(input);
+    return [extension === '.mts' || extension === '.cts' ? `.d${extension}` : '.d.ts'];
+  };
+  return getEntryPoints(pkgPath, srcDir, config).flatMap((entry) =>
+    extensions(entry.input).map((extension) => ({
+      field: `entry ${entry.subpath}`,
+      target: `./${path.posix.join(outDir, entry.name + extension)}`,
+    })),
+  );
+}
+
+/**
+ * Checks a package for publish readiness
+ * @param pkgPath - Package directory path
+ * @param config - Package build configuration
+ */
+function lintPackage(pkgPath: string, config: Config): LintIssue[] {
+  const pkg = getPackageInfo(pkgPath);
+  const targets = collectTargets(pkg);
+  const declarations = getDeclarationFiles(pkgPath, config);
+
+  const missingDeclarations: LintIssue[] = declarations
+    .filter(({ target }) => !fs.existsSync(path.resolve(pkgPath, target)))
+    .map(({ field, target }) => ({
+      rule: 'missing-declaration',
+      severity: 'error',
+      message: `${field} has no declaration file ${target}`,
+    }));
+
+  return [
+    ...lintTargets(pkgPath, pkg, targets),
+    ...lintTypesOrder(pkg.exports),
+    ...lintFiles(pkgPath, pkg, [...targets, ...declarations]),
+    ...missingDeclarations,
+  ];
+}
+
+/**
+ * Lint the package.json and build outputs of every package: paths in main, module, types, exports and bin
+ * exist, JavaScript files match the format of their condition, types conditions come first, files covers
+ * the outputs and every entry has declarations
+ * @param options - Options from CLI
+ */
+export async function lint(options: Partial<Config> = {}): Promise<void> {
+  log('Linting packages...', 'info');
+
+  const config = await getConfig(options);
+  const rootDir = config.rootDir;
+  const packages = sortPackagesByDependencies(
+    config.monorepo ? [...(config.build.main ? [rootDir] : []), ...getWorkspacePackages(config)] : [rootDir],
+    config,
+  );
+
+  const targetPackages = selectPackages(packages, config);
+
+  let errors = 0;
+  let warnings = 0;
+  for (const pkgPath of targetPackages) {
+    const name = getPackageInfo(pkgPath).name;
+    const issues = lintPackage(pkgPath, await getPackageConfig(pkgPath, config));
+    if (issues.length === 0) {
+      if (config.verbose) log(`[${name}] No problems`, 'success');
+      continue;
+    }
+    issues.forEach(({ rule, severity, message }) => log(`[${name}] ${rule}: ${message}`, severity));
+    errors += issues.filter(({ severity }) => severity === 'error').length;
+    warnings += issues.filter(({ severity }) => severity === 'warn').length;
+  }
+
+  const summary = `${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${warnings === 1 ? '' : 's'}`;
+  if (errors > 0) {
+    log(`Lint failed with ${summary}`, 'error');
+    process.exit(1);
+  }
+  log(
+    warnings > 0
+      ? `Lint passed with ${summary}`
+      : `Linted ${targetPackages.length} package${targetPackages.length === 1 ? '' : 's'}`,
+    'success',
+  );
+}
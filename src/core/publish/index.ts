@@ -2,7 +2,8 @@ import path from 'path';
 import fs from 'fs';
 import { Config, getConfig } from '../utils/config.js';
 import { log, initDisplay, updatePackageDisplayStatus } from '../utils/display.js';
-import { getPackageInfo, sortPackagesByDependencies } from '../utils/package.js';
+import { selectPackages } from '../utils/filter.js';
+import { getPackageInfo, getWorkspacePackages, sortPackagesByDependencies } from '../utils/package.js';
 import { execSync } from 'child_process';
 import { tmpdir } from 'os';
 import { copyFileSync, mkdirSync, rmSync } from 'fs';
@@ -181,30 +182,15 @@ export async function publish(options: Partial<Config> = {}): Promise<void> {
   const rootVersion = rootPkg.version;
 
   // Get all package directories
-  const namePattern = new RegExp(`^@${config.name}\\/`);
   let packages = [
-    ...(config.monorepo
-      ? [
-          ...(config.build.main ? [rootDir] : []),
-          ...fs
-            .readdirSync(path.resolve(rootDir, config.packagesDir))
-            .map((dir) => path.resolve(rootDir, config.packagesDir, dir))
-            .filter((dir) => fs.statSync(dir).isDirectory()),
-        ]
-      : [rootDir]),
+    ...(config.monorepo ? [...(config.build.main ? [rootDir] : []), ...getWorkspacePackages(config)] : [rootDir]),
   ];
 
   // Sort packages by dependency order
   packages = sortPackagesByDependencies(packages, config);
 
-  // Filter packages if specific package is specified
-  const targetPackages = config.package
-    ? packages.filter((pkg) => {
-        const pkgInfo = getPackageInfo(pkg);
-        const pkgName = pkgInfo.name.replace(namePattern, '');
-        return pkgInfo && pkgName === config.package;
-      })
-    : packages;
+  // Filter packages by --package, --filter and --since
+  const targetPackages = selectPackages(packages, config);
 
   if (targetPackages.length === 0) {
     log('No matching packages found to publish', 'error');
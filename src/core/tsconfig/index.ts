@@ -0,0 +1,279 @@
+import fs from 'fs';
+import path from 'path';
+import { applyEdits, JSONPath, modify } from 'jsonc-parser';
+import { Config, getConfig, getPackageConfig } from '../utils/config.js';
+import { log } from '../utils/display.js';
+import {
+  getPackageDependencies,
+  getPackageInfo,
+  getWorkspacePackages,
+  sortPackagesByDependencies,
+} from '../utils/package.js';
+import { toCacheFileName } from '../build/cache.js';
+import { loadTypeScript } from '../build/tsc.js';
+
+interface ProjectReference {
+  path: string;
+  [key: string]: any;
+}
+
+interface TsconfigChange {
+  file: string;
+  changes: string[];
+}
+
+// A property to set in a tsconfig file, removed when the value is undefined
+type TsconfigEdit = [JSONPath, unknown];
+
+interface SyncOptions extends Partial<Config> {
+  // Report out-of-sync files and fail instead of writing them
+  check?: boolean;
+}
+
+/**
+ * Turns a path into a relative tsconfig path, always starting with `./` or `../`
+ * @param from - Directory of the tsconfig.json
+ * @param to - Target path
+ */
+function toConfigPath(from: string, to: string): string {
+  const relative = path.relative(from, to).split(path.sep).join('/') || '.';
+  return relative.startsWith('.') ? relative : `./${relative}`;
+}
+
+/**
+ * Reads a tsconfig.json, which may contain comments and trailing commas
+ * @param file - Path of the tsconfig.json
+ * @returns Parsed config, or undefined when the file does not exist
+ */
+async function readTsconfig(file: string): Promise<Record<string, any> | undefined> {
+  if (!fs.existsSync(file)) return undefined;
+  const ts = await loadTypeScript();
+  const { config, error } = ts.parseConfigFileTextToJson(file, fs.readFileSync(file, 'utf-8'));
+  if (error) {
+    throw new Error(`Cannot parse ${file}: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`);
+  }
+  return config;
+}
+
+/**
+ * Sets properties of a tsconfig file, keeping its comments and formatting
+ * @param text - Content of the file
+ * @param edits - Properties to set
+ * @returns Updated content
+ */
+function editTsconfig(text: string, edits: TsconfigEdit[]): string {
+  return edits.reduce(
+    (result, [jsonPath, value]) =>
+      applyEdits(result, modify(result, jsonPath, value, { formattingOptions: { insertSpaces: true, tabSize: 2 } })),
+    text,
+  );
+}
+
+/**
+ * Replaces the references that point into workspace packages, keeping any others
+ * @param current - Current references
+ * @param expected - References to the workspace dependencies
+ * @param configDir - Directory of the tsconfig.json
+ * @param packages - Package directory paths
+ * @returns Updated references and a description of every change
+ */
+function syncReferences(
+  current: ProjectReference[],
+  expected: ProjectReference[],
+  configDir: string,
+  packages: string[],
+): { references: ProjectReference[]; changes: string[] } {
+  const changes: string[] = [];
+  const resolve = (reference: ProjectReference) =>
+    path.resolve(configDir, reference.path).replace(/[\\/]tsconfig\.json$/, '');
+  const expectedPaths = new Set(expected.map(resolve));
+
+  const kept = current.filter((reference) => {
+    const target = resolve(reference);
+    const isWorkspace = packages.includes(target);
+    // References to removed packages or former dependencies are stale
+    if (!fs.existsSync(target) || (isWorkspace && !expectedPaths.has(target))) {
+      changes.push(`removed stale reference ${reference.path}`);
+      return false;
+    }
+    return !isWorkspace;
+  });
+
+  const currentPaths = new Set(current.map(resolve));
+  expected
+    .filter((reference) => !currentPaths.has(resolve(reference)))
+    .forEach((reference) => changes.push(`added reference ${reference.path}`));
+  return { references: [...kept, ...expected], changes };
+}
+
+/**
+ * Sync the tsconfig.json of every package with its workspace dependencies: project references, paths to
+ * their sources, and a solution in tsconfig.build.json that references every package. The root tsconfig.json
+ * is left without references, as the TypeScript plugin compiles with it.
+ * @param options - Options from CLI
+ */
+export async function syncTsconfig(options: SyncOptions = {}): Promise<void> {
+  const { check = false, ...configOptions } = options;
+  log(check ? 'Checking tsconfig references...' : 'Syncing tsconfig references...', 'info');
+
+  const config = await getConfig(configOptions);
+  const rootDir = config.rootDir;
+  if (!config.monorepo) {
+    log('Project references are only synced in monorepos', 'info');
+    return;
+  }
+
+  const packages = sortPackagesByDependencies(getWorkspacePackages(config), config);
+  const namePattern = new RegExp(`^@${config.name}\\/`);
+  const pathsByName = new Map(
+    packages.map((pkgPath) => [getPackageInfo(pkgPath).name.replace(namePattern, ''), pkgPath]),
+  );
+  const rootTsconfig = path.resolve(rootDir, 'tsconfig.json');
+  const solutionTsconfig = path.resolve(rootDir, 'tsconfig.build.json');
+  const results: TsconfigChange[] = [];
+
+  /**
+   * Writes a tsconfig file unless only checking, and records what changed. Existing files are edited
+   * property by property, so that their comments are kept.
+   * @param file - Path of the tsconfig file
+   * @param changes - Description of the changes
+   * @param edits - Properties to set in an existing file
+   * @param created - Content of a new file
+   */
+  const update = (file: string, changes: string[], edits: TsconfigEdit[], created?: Record<string, any>) => {
+    if (changes.length === 0) return;
+    results.push({ file: path.relative(rootDir, file), changes });
+    if (check) return;
+    const content = created
+      ? JSON.stringify(created, null, 2) + '\n'
+      : editTsconfig(fs.readFileSync(file, 'utf-8'), edits);
+    fs.writeFileSync(file, content);
+  };
+
+  for (const pkgPath of packages) {
+    const pkgConfig = await getPackageConfig(pkgPath, config);
+    const file = path.join(pkgPath, 'tsconfig.json');
+    const existing = await readTsconfig(file);
+    const deps = getPackageDependencies(pkgPath, config)
+      .dependencies.filter((dep) => pathsByName.has(dep))
+      .map((dep) => pathsByName.get(dep)!);
+    const changes: string[] = existing ? [] : ['created'];
+    const edits: TsconfigEdit[] = [];
+
+    // New projects only emit declarations, as JavaScript comes from monoup
+    const tsconfig: Record<string, any> = existing ?? {
+      ...(fs.existsSync(rootTsconfig) && { extends: toConfigPath(pkgPath, rootTsconfig) }),
+      compilerOptions: {
+        composite: true,
+        declaration: true,
+        emitDeclarationOnly: true,
+        declarationMap: pkgConfig.sourcemap,
+        rootDir: toConfigPath(pkgPath, path.resolve(pkgPath, pkgConfig.srcDir)),
+        outDir: toConfigPath(pkgPath, path.resolve(pkgPath, pkgConfig.outDir)),
+        tsBuildInfoFile: toConfigPath(
+          pkgPath,
+          path.resolve(
+            pkgConfig.build.cacheDir,
+            'monoup',
+            'tsc',
+            toCacheFileName(getPackageInfo(pkgPath).name),
+            'tsconfig.tsbuildinfo',
+          ),
+        ),
+      },
+      include: [toConfigPath(pkgPath, path.resolve(pkgPath, pkgConfig.srcDir))],
+    };
+
+    const synced = syncReferences(
+      tsconfig.references || [],
+      deps.map((dep) => ({ path: toConfigPath(pkgPath, dep) })),
+      pkgPath,
+      packages,
+    );
+    if (existing && synced.changes.length > 0) {
+      changes.push(...synced.changes);
+      edits.push([['references'], synced.references.length > 0 ? synced.references : undefined]);
+    }
+
+    // Referenced projects have to be composite
+    const compilerOptions: Record<string, any> = { ...tsconfig.compilerOptions };
+    if (existing && compilerOptions.composite !== true) {
+      compilerOptions.composite = true;
+      changes.push('enabled composite');
+      edits.push([['compilerOptions', 'composite'], true]);
+    }
+
+    // Workspace imports resolve to the sources of the referenced packages; other paths are kept
+    const paths: Record<string, string[]> = Object.fromEntries(
+      Object.entries<string[]>(compilerOptions.paths || {}).filter(([key]) => !namePattern.test(key)),
+    );
+    for (const dep of deps) {
+      const name = getPackageInfo(dep).name;
+      const depSrcDir = toConfigPath(pkgPath, path.resolve(dep, (await getPackageConfig(dep, config)).srcDir));
+      paths[name] = [depSrcDir];
+      paths[`${name}/*`] = [`${depSrcDir}/*`];
+    }
+    const currentPaths = JSON.stringify(compilerOptions.paths || {});
+    const currentBaseUrl = compilerOptions.baseUrl;
+    if (Object.keys(paths).length > 0) {
+      // Paths of a package are relative to its own directory, not to an inherited baseUrl
+      compilerOptions.baseUrl = '.';
+      compilerOptions.paths = paths;
+    } else {
+      delete compilerOptions.paths;
+    }
+    if (existing && JSON.stringify(compilerOptions.paths || {}) !== currentPaths) {
+      changes.push('updated paths');
+      edits.push([['compilerOptions', 'paths'], compilerOptions.paths]);
+    }
+    if (existing && compilerOptions.baseUrl !== currentBaseUrl) {
+      changes.push(currentBaseUrl === undefined ? 'set baseUrl' : `changed baseUrl from ${currentBaseUrl}`);
+      edits.push([['compilerOptions', 'baseUrl'], compilerOptions.baseUrl]);
+    }
+
+    const content: Record<string, any> = { ...tsconfig, compilerOptions, references: synced.references };
+    if (content.references.length === 0) {
+      delete content.references;
+    }
+    update(file, changes, edits, existing ? undefined : content);
+  }
+
+  // The solution builds every package with `tsc --build`. It compiles no files of its own and nothing extends it.
+  const existingSolution = await readTsconfig(solutionTsconfig);
+  const solutionSynced = syncReferences(
+    existingSolution?.references || [],
+    packages.map((pkgPath) => ({ path: toConfigPath(rootDir, pkgPath) })),
+    rootDir,
+    packages,
+  );
+  update(
+    solutionTsconfig,
+    existingSolution ? solutionSynced.changes : ['created'],
+    [[['references'], solutionSynced.references]],
+    existingSolution ? undefined : { files: [], references: solutionSynced.references },
+  );
+
+  // The TypeScript plugin compiles with the root tsconfig.json, where package references would stop declarations
+  const existingRoot = await readTsconfig(rootTsconfig);
+  const rootReferences: ProjectReference[] = existingRoot?.references || [];
+  const isPackageReference = (reference: ProjectReference) =>
+    packages.includes(path.resolve(rootDir, reference.path).replace(/[\\/]tsconfig\.json$/, ''));
+  const keptReferences = rootReferences.filter((reference) => !isPackageReference(reference));
+  update(
+    rootTsconfig,
+    rootReferences
+      .filter(isPackageReference)
+      .map((reference) => `moved reference ${reference.path} to tsconfig.build.json`),
+    [[['references'], keptReferences.length > 0 ? keptReferences : undefined]],
+  );
+
+  results.forEach(({ file, changes }) => log(`${file}: ${changes.join(', ')}`, check ? 'warn' : 'info'));
+  if (results.length === 0) {
+    log('All tsconfig files are in sync', 'success');
+  } else if (check) {
+    log(`${results.length} tsconfig file${results.length === 1 ? ' is' : 's are'} out of sync`, 'error');
+    process.exit(1);
+  } else {
+    log(`Updated ${results.length} tsconfig file${results.length === 1 ? '' : 's'}`, 'success');
+  }
+}
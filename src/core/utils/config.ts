@@ -1,29 +1,89 @@
 import { transform } from 'esbuild';
 import fsPromises from 'fs/promises';
-import { tmpdir } from 'os';
+import os, { tmpdir } from 'os';
 import path from 'path';
 import { fileURLToPath, pathToFileURL } from 'url';
 import { log } from './display.js';
-import { getPackageInfo } from './package.js';
+import { getPackageInfo, PackageJson } from './package.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 const projectRoot = path.resolve(__dirname, '../../..');
 
+// Compiles with @rollup/plugin-typescript, or type checks with `tsc --build` while esbuild compiles
+export type TypeScriptBackend = 'plugin' | 'tsc';
+
+export const TYPESCRIPT_BACKENDS: TypeScriptBackend[] = ['plugin', 'tsc'];
+
 export interface TypeScriptConfig {
   enabled: boolean;
+  backend: TypeScriptBackend;
   declaration: boolean;
   removeComments: boolean;
+  bundleDeclarations: boolean;
   paths?: Record<string, string[]>;
 }
 
+export interface AssetsConfig {
+  // Imported file types copied to outDir/assets with hashed names
+  extensions: string[];
+  // Assets up to this many bytes are inlined as data URLs instead
+  inlineLimit: number;
+  // Scope class names of *.module.css files and export them from the import
+  cssModules: boolean;
+}
+
+export interface StrictDependenciesConfig {
+  // Whether bare imports missing from package.json, or only in devDependencies, are ignored, warned about or fail the build
+  level: 'off' | 'warn' | 'error';
+  // Modules that may be imported without being declared, e.g. `react` or `@types/*`
+  allow: string[];
+}
+
+export type OutputFormat = 'cjs' | 'esm' | 'iife' | 'umd';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['cjs', 'esm', 'iife', 'umd'];
+
+export type Platform = 'node' | 'browser' | 'neutral';
+
+export const PLATFORMS: Platform[] = ['node', 'browser', 'neutral'];
+
+// Size budget in bytes, or a string such as `10 kB`
+export type SizeLimit = number | string;
+
+export type SizeCompression = 'none' | 'gzip' | 'brotli';
+
+// Text added to emitted files, or a function of the package's package.json returning it
+export type Banner = string | ((pkg: PackageJson) => string);
+
 export interface BuildConfig {
-  formats: ('cjs' | 'esm')[];
-  extensions: {
-    cjs: string;
-    esm: string;
-  };
+  formats: OutputFormat[];
+  extensions: Record<OutputFormat, string>;
+  // Runtime the output targets; a list emits one build per platform, the first being the default
+  platform: Platform | Platform[];
+  // Global variable name for iife and umd bundles, derived from the package name by default
+  globalName?: string;
+  // Global variable names of externals for iife and umd bundles
+  globals?: Record<string, string>;
   cacheDir: string;
+  cache: boolean;
+  generateExports: boolean;
+  // Print raw, gzip and brotli sizes of every entry after it is built
+  sizeReport: boolean;
+  // Budget for every entry, or per export subpath such as `.` or `./utils`
+  sizeLimit?: SizeLimit | Record<string, SizeLimit>;
+  // Size that budgets are checked against
+  sizeCompression: SizeCompression;
+  // Expressions replaced at build time, e.g. { __VERSION__: '"1.0.0"' }
+  define: Record<string, string>;
+  // Environment variables inlined as process.env.X and import.meta.env.X
+  env: string[];
+  // Added to the start and end of every emitted chunk and declaration file
+  banner?: Banner;
+  footer?: Banner;
+  // Start every emitted chunk and declaration file with a license comment built from package.json
+  licenseHeader: boolean;
+  strictDependencies: StrictDependenciesConfig;
   main: boolean;
   mainEntry: string;
   packageEntry: string;
@@ -31,7 +91,10 @@ export interface BuildConfig {
   target: string;
   moduleDirectories: string[];
   typescript: TypeScriptConfig;
+  assets: AssetsConfig;
   baseExternals?: string[];
+  // Dependencies inlined into the bundle instead of left external
+  bundleDependencies: string[];
 }
 
 export interface Config {
@@ -41,10 +104,23 @@ export interface Config {
   srcDir: string;
   outDir: string;
   package?: string;
+  // pnpm-style package selectors, such as `@app/ui-*`, `core...`, `...core` or `!legacy`
+  filter?: string | string[];
+  // Git ref; only packages changed since it and their dependents are selected
+  since?: string;
   tag?: string;
   verbose: boolean;
   production: boolean;
   process: boolean;
+  watch: boolean;
+  concurrency: number;
+  bail: boolean;
+  // Print a JSON build report to stdout
+  json: boolean;
+  // File to write a JSON build report to
+  report?: string;
+  // Write a module treemap of every built package to the cache dir
+  analyze: boolean;
   monorepo: boolean;
   sourcemap: boolean;
   build: BuildConfig;
@@ -69,6 +145,11 @@ const baseConfig: Config = {
   verbose: false,
   production: false,
   process: false,
+  watch: false,
+  concurrency: typeof os.availableParallelism === 'function' ? os.availableParallelism() : os.cpus().length,
+  bail: false,
+  json: false,
+  analyze: false,
   monorepo: false,
   treeshake: false,
 
@@ -76,15 +157,30 @@ const baseConfig: Config = {
   build: {
     main: false,
     mainEntry: 'index.ts',
+    generateExports: false,
+    sizeReport: false,
+    sizeCompression: 'gzip',
+    define: {},
+    env: [],
+    licenseHeader: false,
+    bundleDependencies: [],
+    strictDependencies: {
+      level: 'off',
+      allow: [],
+    },
     packageEntry: 'index.ts',
     // Output formats
     formats: ['cjs', 'esm'],
+    platform: 'neutral',
     extensions: {
       cjs: '.js',
       esm: '.mjs',
+      iife: '.global.js',
+      umd: '.umd.js',
     },
 
     // Cache directories
+    cache: true,
     cacheDir: path.resolve(rootDir, 'node_modules/.cache'),
     rollupCacheDir: path.resolve(rootDir, 'node_modules/.cache/rollup-typescript'),
 
@@ -97,8 +193,31 @@ const baseConfig: Config = {
     // TypeScript settings
     typescript: {
       enabled: true,
+      backend: 'plugin',
       declaration: true,
       removeComments: false,
+      bundleDeclarations: false,
+    },
+
+    // Static assets and CSS
+    assets: {
+      extensions: [
+        '.svg',
+        '.png',
+        '.jpg',
+        '.jpeg',
+        '.gif',
+        '.webp',
+        '.avif',
+        '.ico',
+        '.woff',
+        '.woff2',
+        '.ttf',
+        '.otf',
+        '.eot',
+      ],
+      inlineLimit: 0,
+      cssModules: true,
     },
   },
 
@@ -106,28 +225,72 @@ const baseConfig: Config = {
   sourcemap: true,
 };
 
+// Options passed to defineConfig, kept on its result; a registered symbol is shared by every copy of monoup
+const USER_CONFIG = Symbol.for('monoup.userConfig');
+
 // Define configuration method
 export function defineConfig(userConfig: DeepPartial<Config>): Config {
-  return {
+  const config: Config = {
     ...baseConfig,
     ...userConfig,
     build: {
       ...baseConfig.build,
       ...userConfig.build,
+      extensions: {
+        ...baseConfig.build.extensions,
+        ...userConfig.build?.extensions,
+      },
       typescript: {
         ...baseConfig.build.typescript,
         ...userConfig.build?.typescript,
       },
+      assets: {
+        ...baseConfig.build.assets,
+        ...userConfig.build?.assets,
+      },
+      strictDependencies: {
+        ...baseConfig.build.strictDependencies,
+        ...userConfig.build?.strictDependencies,
+      },
     } as BuildConfig,
   };
+  // Not enumerable, so merged and serialized configs leave it out
+  Object.defineProperty(config, USER_CONFIG, { value: userConfig });
+  return config;
+}
+
+/**
+ * Get the options a config file set, without the defaults defineConfig fills in
+ * @param config - Exported config
+ * @returns Options passed to defineConfig, or the config itself when it is a plain object
+ */
+function getUserConfig(config: Record<string, any>): Record<string, any> {
+  return Reflect.get(config, USER_CONFIG) ?? config;
+}
+
+/**
+ * Deep merge plain objects, with arrays and other values from the override replacing the base
+ * @param base - Base object
+ * @param override - Object merged on top
+ * @returns Merged object
+ */
+export function mergeConfig<T extends Record<string, any>>(base: T, override: Record<string, any>): T {
+  const result: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+    const isObject = (v: any) => v !== null && typeof v === 'object' && !Array.isArray(v);
+    result[key] = isObject(value) && isObject(result[key]) ? mergeConfig(result[key], value) : value;
+  }
+  return result as T;
 }
 
 /**
  * Load config file with different formats
  * @param rootDir - Root directory
+ * @param warnIfMissing - Whether to warn when no config file exists
  * @returns User config object
  */
-async function loadConfigFile(rootDir: string): Promise<Record<string, any>> {
+async function loadConfigFile(rootDir: string, warnIfMissing: boolean = true): Promise<Record<string, any>> {
   const configFiles = [
     'monoup.config.mjs',
     'monoup.config.js',
@@ -198,10 +361,55 @@ async function loadConfigFile(rootDir: string): Promise<Record<string, any>> {
     }
   }
 
-  log('No configuration file found, using default settings', 'warn');
+  if (warnIfMissing) {
+    log('No configuration file found, using default settings', 'warn');
+  }
   return {};
 }
 
+/**
+ * Validate configuration values that would otherwise fail deep inside a build
+ * @param config - Configuration to validate
+ */
+function validateConfig(config: Config): void {
+  const unsupported = config.build.formats.filter((format) => !OUTPUT_FORMATS.includes(format));
+  if (unsupported.length > 0) {
+    throw new Error(`Unsupported output format: ${unsupported.join(', ')} (expected ${OUTPUT_FORMATS.join(', ')})`);
+  }
+  const platforms = ([] as Platform[]).concat(config.build.platform);
+  const unknown = platforms.filter((platform) => !PLATFORMS.includes(platform));
+  if (unknown.length > 0) {
+    throw new Error(`Unsupported platform: ${unknown.join(', ')} (expected ${PLATFORMS.join(', ')})`);
+  }
+  if (platforms.length === 0) {
+    throw new Error(`No platform given (expected ${PLATFORMS.join(', ')})`);
+  }
+  // Additional builds are selected by an export condition of the same name, which neutral lacks
+  if (platforms.indexOf('neutral') > 0 || new Set(platforms).size !== platforms.length) {
+    throw new Error(`Invalid platforms: ${platforms.join(', ')} (neutral may only come first, without duplicates)`);
+  }
+  if (!TYPESCRIPT_BACKENDS.includes(config.build.typescript.backend)) {
+    throw new Error(
+      `Unsupported TypeScript backend: ${config.build.typescript.backend} (expected ${TYPESCRIPT_BACKENDS.join(', ')})`,
+    );
+  }
+  const { level } = config.build.strictDependencies;
+  if (!['off', 'warn', 'error'].includes(level)) {
+    throw new Error(`Invalid strictDependencies level: ${level} (expected off, warn, error)`);
+  }
+  // Objects would replace the whole expression they are found under, such as `process` for process.env.X
+  for (const [key, value] of Object.entries(config.build.define)) {
+    if (!['string', 'number', 'boolean'].includes(typeof value)) {
+      throw new Error(
+        `Invalid define value for ${key}: ${JSON.stringify(value)} (expected a string, number or boolean)`,
+      );
+    }
+  }
+  if (!Number.isInteger(config.concurrency) || config.concurrency < 1) {
+    throw new Error(`Invalid concurrency: ${config.concurrency} (expected a positive integer)`);
+  }
+}
+
 // Get configuration
 export async function getConfig(options: Partial<Config> = {}): Promise<Config> {
   try {
@@ -215,18 +423,79 @@ export async function getConfig(options: Partial<Config> = {}): Promise<Config>
     const userConfig = await loadConfigFile(rootDir);
 
     // Create initial config with package name
-    const config = defineConfig({
-      ...userConfig,
-      ...options,
-    });
+    const config = defineConfig(mergeConfig(userConfig, options));
 
     if (!config.name) {
       config.name = pkgName;
     }
 
+    validateConfig(config);
     return config;
   } catch (error) {
     console.error('Failed to load config:', error);
     process.exit(1);
   }
 }
+
+// Settings that describe the workspace itself and cannot be overridden per package
+const workspaceKeys = [
+  'name',
+  'rootDir',
+  'packagesDir',
+  'monorepo',
+  'package',
+  'filter',
+  'since',
+  'verbose',
+  'process',
+  'watch',
+  'concurrency',
+  'bail',
+  'json',
+  'report',
+];
+
+const packageConfigCache = new WeakMap<Config, Map<string, Promise<Config>>>();
+
+/**
+ * Load package configuration overrides from a package's monoup.config.* file and its package.json `monoup` field
+ * @param pkgPath - Package directory
+ * @returns Override object, empty when the package has none
+ */
+async function loadPackageOverrides(pkgPath: string): Promise<Record<string, any>> {
+  // Defaults filled in by defineConfig would reset the root settings
+  const fileConfig = getUserConfig(await loadConfigFile(pkgPath, false));
+  const fieldConfig = getPackageInfo(pkgPath).monoup ?? {};
+  const overrides = mergeConfig(fileConfig, fieldConfig);
+  workspaceKeys.forEach((key) => delete overrides[key]);
+  return overrides;
+}
+
+/**
+ * Get the configuration for a single package, with its overrides deep-merged on top of the root config
+ * @param pkgPath - Package directory
+ * @param config - Root configuration
+ * @returns Package configuration
+ */
+export function getPackageConfig(pkgPath: string, config: Config): Promise<Config> {
+  if (path.resolve(pkgPath) === path.resolve(config.rootDir)) {
+    return Promise.resolve(config);
+  }
+
+  let cache = packageConfigCache.get(config);
+  if (!cache) {
+    cache = new Map();
+    packageConfigCache.set(config, cache);
+  }
+  if (!cache.has(pkgPath)) {
+    cache.set(
+      pkgPath,
+      loadPackageOverrides(pkgPath).then((overrides) => {
+        const pkgConfig = mergeConfig(config, overrides);
+        validateConfig(pkgConfig);
+        return pkgConfig;
+      }),
+    );
+  }
+  return cache.get(pkgPath)!;
+}
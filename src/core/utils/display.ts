@@ -1,7 +1,7 @@
 // Display utilities for build process
 
 type MessageType = 'info' | 'error' | 'success' | 'warn';
-type PackageStatus = 'success' | 'error' | 'waiting' | 'building' | 'pending';
+type PackageStatus = 'success' | 'cached' | 'error' | 'skipped' | 'waiting' | 'building' | 'pending';
 
 interface DisplayOptions {
   noPrefix: boolean;
@@ -19,6 +19,9 @@ let length = 0;
 
 let init = false;
 
+// Output stream for logs and progress, moved to stderr when stdout carries a report
+let output: NodeJS.WriteStream = process.stdout;
+
 /**
  * Log a message with color and icon
  * @param message - Message to log
@@ -42,7 +45,14 @@ export function log(message: string, type: MessageType = 'info', options: Displa
   };
 
   const coloredPrefix = options.noPrefix ? '' : `${colors[type]}${prefix[type]}${colors.reset}`;
-  console.log(`${coloredPrefix} ${colors[type]}${message}${colors.reset}`);
+  output.write(`${coloredPrefix} ${colors[type]}${message}${colors.reset}\n`);
+}
+
+/**
+ * Send logs and progress to stderr, keeping stdout free for machine-readable output
+ */
+export function logToStderr(): void {
+  output = process.stderr;
 }
 
 /**
@@ -59,7 +69,7 @@ function renderBuildStatus(): void {
   const sortedPackages = Array.from(packageStatus.entries());
 
   if (length > 0) {
-    process.stdout.write(`\x1B[${length}A`);
+    output.write(`\x1B[${length}A`);
   }
 
   let building = false;
@@ -68,12 +78,16 @@ function renderBuildStatus(): void {
     let icon;
     if (status === 'success') {
       icon = '✓';
+    } else if (status === 'cached') {
+      icon = '↺';
     } else if (status === 'error') {
       icon = '✗';
+    } else if (status === 'skipped') {
+      icon = '-';
     } else if (status === 'waiting') {
       icon = '⧖';
       if (dependencies) {
-        let name = dependencies.find((dep) => packageStatus.get(dep)?.status !== 'success');
+        let name = dependencies.find((dep) => !['success', 'cached'].includes(packageStatus.get(dep)?.status!));
         message = name ? `Waiting for ${name}` : message;
       }
     } else {
@@ -82,7 +96,7 @@ function renderBuildStatus(): void {
     }
     const paddedName = pkg.padEnd(20);
     const paddedStatus = message.padEnd(30);
-    process.stdout.write(`${icon} ${paddedName} ${paddedStatus} \n`);
+    output.write(`${icon} ${paddedName} ${paddedStatus} \n`);
   });
 
   if (sortedPackages.length > 0) {
@@ -126,3 +140,11 @@ export function initDisplay(packages: string[]): void {
   });
   renderBuildStatus();
 }
+
+/**
+ * Start a new status block below any output written since the last render
+ */
+export function resetDisplay(): void {
+  length = 0;
+  packageStatus.clear();
+}
@@ -0,0 +1,204 @@
+import path from 'path';
+import { execFileSync } from 'child_process';
+import { Config } from './config.js';
+import { log } from './display.js';
+import { getPackageInfo } from './package.js';
+
+// Dependency fields that link workspace packages, as followed by version updates
+const DEPENDENCY_FIELDS = ['dependencies', 'peerDependencies', 'devDependencies'];
+
+interface Selector {
+  // Source text, for error messages
+  text: string;
+  exclude: boolean;
+  // Matches a package by name, or by directory for selectors starting with `.`
+  pattern: RegExp;
+  byPath: boolean;
+  // Expand the matches with their dependencies (`name...`) or dependents (`...name`)
+  dependencies: boolean;
+  dependents: boolean;
+  // Leave out the matches themselves when expanding (`name^...`, `...^name`)
+  skipSelf: boolean;
+}
+
+/**
+ * Converts a glob into a regular expression, where `**` matches anything and `*` matches anything but `/`
+ * @param glob - Glob to convert
+ * @param anyStar - Let `*` match `/` as well, for package names such as `@scope/*`
+ */
+function toPattern(glob: string, anyStar = false): RegExp {
+  const source = glob
+    .split(/(\*\*|\*)/)
+    .map((part) => {
+      if (part === '**') return '.*';
+      if (part === '*') return anyStar ? '.*' : '[^/]*';
+      return part.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Parses a pnpm-style filter such as `@app/ui-*`, `core...`, `...^core`, `./tools/*` or `!legacy`
+ * @param text - Filter text
+ */
+function parseSelector(text: string): Selector {
+  let rest = text.trim();
+  const exclude = rest.startsWith('!');
+  if (exclude) rest = rest.slice(1);
+
+  let skipSelf = false;
+  const dependents = rest.startsWith('...');
+  if (dependents) {
+    rest = rest.slice(3);
+    skipSelf = rest.startsWith('^');
+    if (skipSelf) rest = rest.slice(1);
+  }
+  const dependencies = rest.endsWith('...');
+  if (dependencies) {
+    rest = rest.slice(0, -3);
+    skipSelf = skipSelf || rest.endsWith('^');
+    if (rest.endsWith('^')) rest = rest.slice(0, -1);
+  }
+
+  if (!rest) {
+    throw new Error(`Invalid filter '${text}'`);
+  }
+  const byPath = rest.startsWith('.');
+  const pattern = byPath
+    ? toPattern(path.posix.normalize(rest.replace(/\\/g, '/')).replace(/\/$/, ''))
+    : toPattern(rest, true);
+  return { text, exclude, pattern, byPath, dependencies, dependents, skipSelf };
+}
+
+/**
+ * Collects the packages reachable from the given ones in a graph
+ * @param start - Package paths to start from
+ * @param edges - Map of package path to the paths it leads to
+ * @param skipSelf - Leave out the start packages unless they are reached from another one
+ */
+function collectReachable(start: string[], edges: Map<string, string[]>, skipSelf: boolean): Set<string> {
+  const reached = new Set<string>(skipSelf ? [] : start);
+  const stack = start.flatMap((pkgPath) => edges.get(pkgPath) || []);
+  while (stack.length > 0) {
+    const pkgPath = stack.pop()!;
+    if (reached.has(pkgPath)) continue;
+    reached.add(pkgPath);
+    stack.push(...(edges.get(pkgPath) || []));
+  }
+  return reached;
+}
+
+/**
+ * Lists the packages with files changed relative to a git ref, including uncommitted and untracked files
+ * @param packages - Package directory paths
+ * @param since - Git ref to compare with
+ * @param rootDir - Workspace root
+ */
+function getChangedPackages(packages: string[], since: string, rootDir: string): string[] {
+  const git = (args: string[]) =>
+    execFileSync('git', args, { cwd: rootDir, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] })
+      .split('\n')
+      .filter(Boolean);
+
+  let files: string[];
+  try {
+    files = [
+      ...git(['diff', '--name-only', '--relative', since, '--']),
+      ...git(['ls-files', '--others', '--exclude-standard']),
+    ];
+  } catch (error: any) {
+    const reason = error.stderr?.toString().trim() || error.message;
+    throw new Error(`Cannot list files changed since '${since}': ${reason}`);
+  }
+
+  // A file belongs to the innermost package containing it
+  const byDepth = [...packages].sort((a, b) => b.length - a.length);
+  const changed = new Set<string>();
+  for (const file of files) {
+    const absolute = path.resolve(rootDir, file);
+    const owner = byDepth.find((pkgPath) => !path.relative(pkgPath, absolute).startsWith('..'));
+    if (owner) changed.add(owner);
+  }
+  return packages.filter((pkgPath) => changed.has(pkgPath));
+}
+
+/**
+ * Checks whether the packages a command runs on are narrowed down by --package, --filter or --since
+ * @param config - Configuration
+ */
+export function isFiltered(config: Config): boolean {
+  return Boolean(config.package || config.since || [config.filter ?? []].flat().length > 0);
+}
+
+/**
+ * Selects the packages a command runs on. `--package` picks one package by name; `--filter` takes pnpm-style
+ * selectors: names and globs, `./` directories, `name...` with dependencies, `...name` with dependents, and
+ * `!` exclusions. `--since` narrows the selection to packages changed since a git ref and their dependents.
+ * @param packages - Package directory paths
+ * @param config - Configuration
+ * @returns Selected package paths, in the order given
+ */
+export function selectPackages(packages: string[], config: Config): string[] {
+  if (!isFiltered(config)) return packages;
+
+  const namePattern = new RegExp(`^@${config.name}\\/`);
+  const rootDir = path.resolve(config.rootDir);
+  const names = new Map(packages.map((pkgPath) => [getPackageInfo(pkgPath).name, pkgPath]));
+
+  // Workspace dependencies and dependents of every package
+  const dependencies = new Map<string, string[]>();
+  const dependents = new Map<string, string[]>(packages.map((pkgPath) => [pkgPath, []]));
+  for (const pkgPath of packages) {
+    const pkg = getPackageInfo(pkgPath);
+    const deps = DEPENDENCY_FIELDS.flatMap((field) => Object.keys(pkg[field] || {}))
+      .filter((dep) => names.has(dep) && names.get(dep) !== pkgPath)
+      .map((dep) => names.get(dep)!);
+    dependencies.set(pkgPath, [...new Set(deps)]);
+    deps.forEach((dep) => dependents.get(dep)!.push(pkgPath));
+  }
+
+  /**
+   * Resolves a selector to the packages it matches, expanded as requested
+   * @param selector - Parsed selector
+   */
+  const resolve = (selector: Selector): Set<string> => {
+    const matches = packages.filter((pkgPath) => {
+      if (selector.byPath) {
+        return selector.pattern.test(path.relative(rootDir, pkgPath).split(path.sep).join('/') || '.');
+      }
+      const name = getPackageInfo(pkgPath).name;
+      return selector.pattern.test(name) || selector.pattern.test(name.replace(namePattern, ''));
+    });
+    if (matches.length === 0 && !selector.exclude) {
+      throw new Error(`No packages match filter '${selector.text}'`);
+    }
+    if (!selector.dependencies && !selector.dependents) return new Set(matches);
+    return new Set([
+      ...(selector.dependencies ? collectReachable(matches, dependencies, selector.skipSelf) : []),
+      ...(selector.dependents ? collectReachable(matches, dependents, selector.skipSelf) : []),
+    ]);
+  };
+
+  const selectors = [...(config.package ? [config.package] : []), ...[config.filter ?? []].flat()].map((text) =>
+    parseSelector(String(text)),
+  );
+  const includes = selectors.filter((selector) => !selector.exclude);
+  let selected = new Set(includes.length > 0 ? includes.flatMap((selector) => [...resolve(selector)]) : packages);
+
+  if (config.since) {
+    const changed = getChangedPackages(packages, config.since, rootDir);
+    const affected = collectReachable(changed, dependents, false);
+    log(
+      `${changed.length} package${changed.length === 1 ? '' : 's'} changed since ${config.since}, ` +
+        `${affected.size} affected with dependents`,
+      'info',
+    );
+    selected = new Set([...selected].filter((pkgPath) => affected.has(pkgPath)));
+  }
+
+  selectors
+    .filter((selector) => selector.exclude)
+    .forEach((selector) => resolve(selector).forEach((pkgPath) => selected.delete(pkgPath)));
+  return packages.filter((pkgPath) => selected.has(pkgPath));
+}
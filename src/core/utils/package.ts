@@ -1,8 +1,9 @@
 import path from 'path';
 import fs from 'fs';
+import { globSync } from 'glob';
 import { Config } from './config.js';
 
-interface PackageJson {
+export interface PackageJson {
   name: string;
   dependencies?: Record<string, string>;
   [key: string]: any;
@@ -34,6 +35,90 @@ export function getPackageInfo(pkgPath: string): PackageJson {
   return pkg;
 }
 
+/**
+ * Drops the cached package information after package.json was rewritten.
+ *
+ * @param pkgPath - The path to the package directory.
+ */
+export function clearPackageInfo(pkgPath: string): void {
+  packageInfoCache.delete(pkgPath);
+}
+
+/**
+ * Reads the package list of a pnpm-workspace.yaml, a block or flow sequence under `packages`
+ *
+ * @param file - The path to the pnpm-workspace.yaml file.
+ * @returns The workspace patterns.
+ */
+function readPnpmWorkspace(file: string): string[] {
+  const patterns: string[] = [];
+  const unquote = (value: string) => value.trim().replace(/^(['"])(.*)\1$/, '$2');
+  let inPackages = false;
+  for (const line of fs.readFileSync(file, 'utf-8').split(/\r?\n/)) {
+    const content = line.replace(/\s+#.*$/, '').replace(/^#.*$/, '');
+    if (!content.trim()) continue;
+    if (/^\S/.test(content)) {
+      // A top-level key ends the packages sequence
+      const flow = content.match(/^packages:\s*\[(.*)\]\s*$/);
+      if (flow) patterns.push(...flow[1].split(',').map(unquote).filter(Boolean));
+      inPackages = /^packages:\s*$/.test(content);
+    } else if (inPackages) {
+      const item = content.match(/^\s*-\s*(.+)$/);
+      if (item) patterns.push(unquote(item[1]));
+    }
+  }
+  return patterns;
+}
+
+/**
+ * Gets the workspace patterns of a monorepo from the root package.json `workspaces` field or
+ * pnpm-workspace.yaml, falling back to every directory in `packagesDir`.
+ *
+ * @param config - The build configuration.
+ * @returns Glob patterns relative to the root, where a leading `!` excludes matches.
+ */
+function getWorkspacePatterns(config: Config): string[] {
+  const rootPkgFile = path.resolve(config.rootDir, 'package.json');
+  if (fs.existsSync(rootPkgFile)) {
+    const { workspaces } = JSON.parse(fs.readFileSync(rootPkgFile, 'utf-8'));
+    // Yarn also accepts an object with the patterns under `packages`
+    const patterns = Array.isArray(workspaces) ? workspaces : workspaces?.packages;
+    if (Array.isArray(patterns) && patterns.length > 0) return patterns;
+  }
+  const pnpmWorkspaceFile = path.resolve(config.rootDir, 'pnpm-workspace.yaml');
+  if (fs.existsSync(pnpmWorkspaceFile)) {
+    const patterns = readPnpmWorkspace(pnpmWorkspaceFile);
+    if (patterns.length > 0) return patterns;
+  }
+  return [`${config.packagesDir.replace(/\\/g, '/').replace(/\/$/, '')}/*`];
+}
+
+/**
+ * Discovers the packages of a monorepo: directories with a package.json matched by the workspace patterns.
+ * The root package is not included.
+ *
+ * @param config - The build configuration.
+ * @returns Absolute package directory paths, sorted by path.
+ */
+export function getWorkspacePackages(config: Config): string[] {
+  const rootDir = path.resolve(config.rootDir);
+  const patterns = getWorkspacePatterns(config).map((pattern) => pattern.trim().replace(/^\.\//, ''));
+  const include = patterns.filter((pattern) => !pattern.startsWith('!'));
+  const exclude = patterns.filter((pattern) => pattern.startsWith('!')).map((pattern) => pattern.slice(1));
+
+  // Matching package.json files skips plain directories and files
+  const manifests = globSync(
+    include.map((pattern) => `${pattern.replace(/\/$/, '')}/package.json`),
+    {
+      cwd: rootDir,
+      ignore: ['**/node_modules/**', ...exclude.map((pattern) => `${pattern.replace(/\/$/, '')}/package.json`)],
+    },
+  );
+  return [...new Set(manifests.map((file) => path.resolve(rootDir, path.dirname(file))))]
+    .filter((pkgPath) => pkgPath !== rootDir)
+    .sort();
+}
+
 /**
  * Retrieves package dependencies.
  *
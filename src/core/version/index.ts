@@ -2,7 +2,8 @@ import fs from 'fs';
 import path from 'path';
 import { Config, getConfig } from '../utils/config.js';
 import { log } from '../utils/display.js';
-import { getPackageInfo } from '../utils/package.js';
+import { selectPackages } from '../utils/filter.js';
+import { getWorkspacePackages } from '../utils/package.js';
 
 // Types and Interfaces
 interface Version {
@@ -247,30 +248,10 @@ export async function version(versionArg: string = 'patch', options: Partial<Con
   }
 
   // Get package directories
-  const namePattern = new RegExp(`^@${config.name}\\/`);
-  const packages = [
-    rootDir,
-    ...(config.monorepo
-      ? fs
-          .readdirSync(path.resolve(rootDir, config.packagesDir))
-          .map((dir) => path.resolve(rootDir, config.packagesDir, dir))
-          .filter((dir) => fs.statSync(dir).isDirectory())
-      : []),
-  ];
-
-  // Filter target packages
-  const targetPackages = config.package
-    ? packages.filter((pkg) => {
-        const pkgInfo = getPackageInfo(pkg);
-        const pkgName = pkgInfo.name.replace(namePattern, '');
-        return pkgName === config.package;
-      })
-    : packages;
-
-  if (config.package && targetPackages.length === 0) {
-    log(`Package '${config.package}' not found`, 'error');
-    process.exit(1);
-  }
+  const packages = [rootDir, ...(config.monorepo ? getWorkspacePackages(config) : [])];
+
+  // Filter target packages by --package, --filter and --since
+  const targetPackages = selectPackages(packages, config);
 
   const processedPackages = new Set<string>();
   const versionChanges = new Map<string, VersionChange>();